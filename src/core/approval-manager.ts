@@ -0,0 +1,200 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ApprovalGrant, MCPConfig, PendingCommand } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+interface ApprovalState {
+  pending: PendingCommand[];
+  grants: ApprovalGrant[];
+}
+
+export class ApprovalManager {
+  private config: MCPConfig;
+  private state: ApprovalState = { pending: [], grants: [] };
+
+  constructor(config: MCPConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Queue a command for approval
+   * An identical command that is already pending keeps its existing ID
+   */
+  public request(command: string, cwd: string, rule: string, sessionId?: string): PendingCommand {
+    this.load();
+
+    let pending = this.state.pending.find(
+      (p) => p.command === command && p.cwd === cwd && p.sessionId === sessionId
+    );
+
+    if (!pending) {
+      pending = {
+        id: uuidv4(),
+        command,
+        cwd,
+        rule,
+        requestedAt: new Date().toISOString(),
+      };
+      if (sessionId) {
+        pending.sessionId = sessionId;
+      }
+
+      this.state.pending.push(pending);
+      this.save();
+      logger.info(`Approval requested (${pending.id}) for "${command}" in ${cwd}: ${rule}`);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Check for an approval covering this command and use it up if it is one-shot
+   */
+  public consumeGrant(command: string, cwd: string): boolean {
+    this.load();
+
+    const grant = this.state.grants.find((g) => g.command === command && g.cwd === cwd);
+    if (!grant) {
+      return false;
+    }
+
+    if (!grant.expiresAt) {
+      this.state.grants = this.state.grants.filter((g) => g !== grant);
+      this.save();
+      logger.info(`One-shot approval ${grant.pendingId} used for "${command}"`);
+    }
+
+    return true;
+  }
+
+  /**
+   * List commands waiting for a decision
+   */
+  public listPending(): PendingCommand[] {
+    this.load();
+    return [...this.state.pending];
+  }
+
+  /**
+   * Approve a pending command
+   * Without a duration the approval covers the next run only; with a duration
+   * (in seconds) the command may run again until the approval expires
+   */
+  public approve(id: string, durationSeconds?: number): ApprovalGrant | undefined {
+    this.load();
+
+    const pending = this.state.pending.find((p) => p.id === id);
+    if (!pending) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const grant: ApprovalGrant = {
+      pendingId: id,
+      command: pending.command,
+      cwd: pending.cwd,
+      approvedAt: now.toISOString(),
+    };
+    if (durationSeconds) {
+      grant.expiresAt = new Date(now.getTime() + durationSeconds * 1000).toISOString();
+    }
+
+    this.state.pending = this.state.pending.filter((p) => p !== pending);
+    this.state.grants.push(grant);
+    this.save();
+
+    logger.info(
+      `Approved ${id} for "${pending.command}" in ${pending.cwd}` +
+        (grant.expiresAt ? ` until ${grant.expiresAt}` : ' (one-shot)')
+    );
+    return grant;
+  }
+
+  /**
+   * Reject a pending command
+   */
+  public reject(id: string, reason?: string): PendingCommand | undefined {
+    this.load();
+
+    const pending = this.state.pending.find((p) => p.id === id);
+    if (!pending) {
+      return undefined;
+    }
+
+    this.state.pending = this.state.pending.filter((p) => p !== pending);
+    this.save();
+
+    logger.warn(
+      `Rejected ${id} for "${pending.command}" in ${pending.cwd}${reason ? `: ${reason}` : ''}`
+    );
+    return pending;
+  }
+
+  /**
+   * Reload the shared state file, if one is configured, and drop expired entries
+   */
+  private load(): void {
+    const stateFile = this.config.approval?.stateFile;
+    if (stateFile) {
+      try {
+        if (fs.pathExistsSync(stateFile)) {
+          this.state = fs.readJsonSync(stateFile) as ApprovalState;
+        }
+      } catch (error) {
+        logger.error(
+          `Failed to read approval state: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (this.pruneExpired()) {
+      this.save();
+    }
+  }
+
+  /**
+   * Write the state to the shared state file, if one is configured
+   */
+  private save(): void {
+    const stateFile = this.config.approval?.stateFile;
+    if (!stateFile) {
+      return;
+    }
+
+    try {
+      fs.ensureDirSync(path.dirname(stateFile));
+      fs.writeJsonSync(stateFile, this.state, { spaces: 2 });
+    } catch (error) {
+      logger.error(
+        `Failed to write approval state: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Remove requests that waited too long and approvals that have expired
+   * Returns true if anything was removed
+   */
+  private pruneExpired(): boolean {
+    const now = Date.now();
+    const pendingTimeout = this.config.approval?.pendingTimeout;
+    const before = this.state.pending.length + this.state.grants.length;
+
+    if (pendingTimeout) {
+      this.state.pending = this.state.pending.filter((p) => {
+        const expired = now - new Date(p.requestedAt).getTime() > pendingTimeout * 1000;
+        if (expired) {
+          logger.info(`Approval request ${p.id} for "${p.command}" expired without a decision`);
+        }
+        return !expired;
+      });
+    }
+
+    this.state.grants = this.state.grants.filter(
+      (g) => !g.expiresAt || new Date(g.expiresAt).getTime() > now
+    );
+
+    return this.state.pending.length + this.state.grants.length !== before;
+  }
+}
@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { AuditRecord, AuditVerification, ExecutionResult, MCPConfig } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { redactSecrets } from '../utils/redactor.js';
+
+// prevHash of the first record in a log
+const GENESIS_HASH = '0'.repeat(64);
+
+// Bytes read from the end of the log when looking for the last record
+const TAIL_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Hash a record without its own hash field
+ */
+function hashRecord(record: Omit<AuditRecord, 'hash'>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(record)).digest('hex');
+}
+
+export class AuditLog {
+  private config: MCPConfig;
+
+  constructor(config: MCPConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Append a record for a command run through an MCP tool
+   * Does nothing unless audit.file is configured. Failures are logged rather than
+   * thrown, so that auditing never changes the result of a command.
+   */
+  public record(
+    tool: string,
+    command: string,
+    cwd: string,
+    result: ExecutionResult,
+    durationMs: number
+  ): AuditRecord | undefined {
+    const file = this.config.audit?.file;
+    if (!file) {
+      return undefined;
+    }
+
+    try {
+      const last = this.readLastRecord(file);
+
+      let decision: AuditRecord['decision'] = 'allowed';
+      if (result.pendingApprovalId) {
+        decision = 'pending-approval';
+      } else if (result.denied) {
+        decision = 'denied';
+      }
+
+      const unsigned: Omit<AuditRecord, 'hash'> = {
+        seq: last ? last.seq + 1 : 1,
+        timestamp: new Date().toISOString(),
+        tool,
+        command:
+          this.config.security.redactSecrets === false
+            ? command
+            : redactSecrets(command, this.config.security.redactionPatterns).text,
+        cwd,
+        sessionId: result.sessionId,
+        decision,
+        reason: result.success ? undefined : result.error,
+        exitCode: result.exitCode,
+        durationMs,
+        outputDigest: `sha256:${crypto.createHash('sha256').update(result.output).digest('hex')}`,
+        prevHash: last ? last.hash : GENESIS_HASH,
+      };
+      const record: AuditRecord = { ...unsigned, hash: hashRecord(unsigned) };
+
+      fs.ensureDirSync(path.dirname(file));
+      fs.appendFileSync(file, `${JSON.stringify(record)}\n`);
+      return record;
+    } catch (error) {
+      logger.error(
+        `Failed to write audit record: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Check that every record is unmodified and chained to the one before it
+   * Defaults to the configured audit.file
+   */
+  public verify(file: string | undefined = this.config.audit?.file): AuditVerification {
+    if (!file) {
+      return { valid: false, records: 0, error: 'No audit log file configured' };
+    }
+    if (!fs.pathExistsSync(file)) {
+      return { valid: false, records: 0, error: `Audit log ${file} not found` };
+    }
+
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    let previous: AuditRecord | undefined;
+    let records = 0;
+
+    for (let index = 0; index < lines.length; index++) {
+      if (!lines[index].trim()) {
+        continue;
+      }
+
+      const broken = (error: string): AuditVerification => ({
+        valid: false,
+        records,
+        error,
+        line: index + 1,
+      });
+
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(lines[index]) as AuditRecord;
+      } catch {
+        return broken('Record is not valid JSON');
+      }
+
+      const { hash, ...unsigned } = record;
+      if (record.seq !== (previous ? previous.seq + 1 : 1)) {
+        return broken(`Expected sequence number ${previous ? previous.seq + 1 : 1}, found ${record.seq}`);
+      }
+      if (record.prevHash !== (previous ? previous.hash : GENESIS_HASH)) {
+        return broken('Record does not follow the previous record');
+      }
+      if (hash !== hashRecord(unsigned)) {
+        return broken('Record hash does not match its contents');
+      }
+
+      previous = record;
+      records++;
+    }
+
+    return { valid: true, records };
+  }
+
+  /**
+   * Read the last record of the log without reading the whole file
+   */
+  private readLastRecord(file: string): AuditRecord | undefined {
+    if (!fs.pathExistsSync(file)) {
+      return undefined;
+    }
+
+    const fd = fs.openSync(file, 'r');
+    try {
+      const size = fs.fstatSync(fd).size;
+
+      for (let chunkSize = TAIL_CHUNK_SIZE; ; chunkSize *= 2) {
+        const start = Math.max(0, size - chunkSize);
+        const buffer = Buffer.alloc(size - start);
+        fs.readSync(fd, buffer, 0, buffer.length, start);
+        const lines = buffer
+          .toString('utf8')
+          .split('\n')
+          .filter((line) => line.trim());
+
+        // Unless the chunk starts at the beginning of the file, its first line may be cut off
+        if (start === 0 || lines.length > 1) {
+          return lines.length > 0 ? (JSON.parse(lines[lines.length - 1]) as AuditRecord) : undefined;
+        }
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
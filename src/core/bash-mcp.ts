@@ -1,17 +1,54 @@
-import { MCPConfig, ExecutionOptions, ExecutionResult, SessionInput } from '../types/index.js';
+import os from 'os';
+import {
+  MCPConfig,
+  ExecutionOptions,
+  ExecutionResult,
+  SessionInput,
+  PendingCommand,
+  ApprovalGrant,
+  AuditVerification,
+  TrashItem,
+  JobInfo,
+  JobOutput,
+  OutputPage,
+  OutputQuery,
+  OutputWait,
+  ScreenSnapshot,
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import {
+  findApprovalRule,
+  resolveAllowedDirectory,
+  resolveRealPath,
+  validateCommand,
+} from '../utils/validator.js';
+import { ApprovalManager } from './approval-manager.js';
+import { AuditLog } from './audit-log.js';
 import { CommandExecutor } from './command-executor.js';
+import { JobManager } from './job-manager.js';
+import { OutputStore } from './output-store.js';
 import { SessionManager } from './session-manager.js';
+import { TrashStore } from './trash-store.js';
 
 export class BashMCP {
   private config: MCPConfig;
   private commandExecutor: CommandExecutor;
   private sessionManager: SessionManager;
+  private approvalManager: ApprovalManager;
+  private auditLog: AuditLog;
+  private trashStore: TrashStore;
+  private jobManager: JobManager;
+  private outputStore: OutputStore;
 
   constructor(config: MCPConfig) {
     this.config = config;
-    this.commandExecutor = new CommandExecutor(config);
-    this.sessionManager = new SessionManager(config);
+    this.outputStore = new OutputStore(config);
+    this.commandExecutor = new CommandExecutor(config, this.outputStore);
+    this.sessionManager = new SessionManager(config, this.outputStore);
+    this.approvalManager = new ApprovalManager(config);
+    this.auditLog = new AuditLog(config);
+    this.trashStore = new TrashStore(config);
+    this.jobManager = new JobManager(config, this.commandExecutor);
 
     // logger.info('Bash MCP initialized');
   }
@@ -23,15 +60,77 @@ export class BashMCP {
     command: string,
     options: ExecutionOptions = {}
   ): Promise<ExecutionResult> {
+    const startedAt = Date.now();
+    const cwd = this.getAuditCwd(options.sessionId, options.cwd);
+    const result = await this.runCommand(command, options);
+
+    this.auditLog.record('execute_command', command, cwd, result, Date.now() - startedAt);
+    return result;
+  }
+
+  /**
+   * Run a command in a session or statelessly, holding it for approval if needed
+   */
+  private async runCommand(command: string, options: ExecutionOptions): Promise<ExecutionResult> {
     try {
+      // Only a stateless command has a stdin of its own to feed
+      if (options.sessionId && options.stdin !== undefined) {
+        return {
+          success: false,
+          output: 'Stdin validation failed: stdin is only supported for stateless commands',
+          error: 'stdin is only supported for stateless commands',
+          denied: true,
+          command,
+        };
+      }
+
       // Check if this is a stateful command (using an existing session)
       if (options.sessionId) {
+        const session = this.sessionManager.getSession(options.sessionId);
+        if (this.config.approval && session) {
+          const pending = this.holdForApproval(
+            command,
+            this.sessionManager.getSessionCwd(session),
+            session.id
+          );
+          if (pending) {
+            return pending;
+          }
+        }
+
+        const trashed =
+          this.config.trash?.enabled && session
+            ? await this.saveToTrash(command, this.sessionManager.getSessionCwd(session))
+            : [];
+
         // logger.info(`Executing command in existing session: ${options.sessionId}`);
-        return this.sessionManager.executeInSession(options.sessionId, command);
+        return withTrashed(
+          await this.sessionManager.executeInSession(
+            options.sessionId,
+            command,
+            options.timeout !== undefined ? options.timeout * 1000 : undefined,
+            options.onOutput,
+            options.signal,
+            options.compact
+          ),
+          trashed
+        );
       }
 
-      // Determine if we should create a new session or execute stateless
-      if (options.cwd && this.config.session.defaultMode === 'stateful') {
+      const pending = this.holdForApproval(command, options.cwd || process.cwd());
+      if (pending) {
+        return pending;
+      }
+
+      const trashed = await this.saveToTrash(command, options.cwd || process.cwd());
+
+      // Determine if we should create a new session or execute stateless; commands given
+      // stdin always run stateless
+      if (
+        options.cwd &&
+        this.config.session.defaultMode === 'stateful' &&
+        options.stdin === undefined
+      ) {
         // Create a new session
         const session = this.sessionManager.createSession(options.cwd);
 
@@ -45,12 +144,22 @@ export class BashMCP {
         }
 
         // logger.info(`Created new session ${session.id} for command execution`);
-        return this.sessionManager.executeInSession(session.id, command);
+        return withTrashed(
+          await this.sessionManager.executeInSession(
+            session.id,
+            command,
+            options.timeout !== undefined ? options.timeout * 1000 : undefined,
+            options.onOutput,
+            options.signal,
+            options.compact
+          ),
+          trashed
+        );
       }
 
       // Execute stateless
       // logger.info('Executing stateless command');
-      return this.commandExecutor.executeCommand(command, options);
+      return withTrashed(await this.commandExecutor.executeCommand(command, options), trashed);
     } catch (error) {
       logger.error(
         `Error executing command: ${error instanceof Error ? error.message : String(error)}`
@@ -67,27 +176,306 @@ export class BashMCP {
   /**
    * Send input to an interactive session
    */
-  public sendInput(input: SessionInput): Promise<ExecutionResult> {
+  public async sendInput(input: SessionInput): Promise<ExecutionResult> {
+    const startedAt = Date.now();
+    const cwd = this.getAuditCwd(input.sessionId);
+    const result = await this.sendSessionInput(input);
+
+    this.auditLog.record('send_session_input', input.input, cwd, result, Date.now() - startedAt);
+    return result;
+  }
+
+  /**
+   * Send optional input to a session, then wait for its output to match a pattern,
+   * go idle or time out
+   */
+  public async waitForOutput(wait: OutputWait): Promise<ExecutionResult> {
+    const startedAt = Date.now();
+    const cwd = this.getAuditCwd(wait.sessionId);
+    const result = await this.waitForSessionOutput(wait);
+
+    this.auditLog.record('wait_for_output', wait.input ?? '', cwd, result, Date.now() - startedAt);
+    return result;
+  }
+
+  /**
+   * Send input to a session, holding commands typed at the prompt for approval if needed
+   */
+  private async sendSessionInput(input: SessionInput): Promise<ExecutionResult> {
     const { sessionId, input: inputText } = input;
 
     logger.info(`Sending input to session: ${sessionId}`);
 
+    const prepared = await this.prepareSessionInput(sessionId, inputText);
+    if ('result' in prepared) {
+      return prepared.result;
+    }
+
+    // Calculate timeout based on config
+    const timeout = input.timeout || this.config.security.commandTimeout * 1000;
+
+    // Use the new method to send input and collect output
+    return withTrashed(
+      await this.sessionManager.collectOutputAfterInput(
+        sessionId,
+        inputText,
+        timeout,
+        input.onOutput,
+        input.signal,
+        input.compact
+      ),
+      prepared.trashed
+    );
+  }
+
+  /**
+   * Send optional input to a session and wait for its output, holding commands typed
+   * at the prompt for approval if needed
+   */
+  private async waitForSessionOutput(wait: OutputWait): Promise<ExecutionResult> {
+    const { sessionId, input, onOutput, signal, compact, ...condition } = wait;
+
+    let trashed: TrashItem[] = [];
+    if (input !== undefined) {
+      const prepared = await this.prepareSessionInput(sessionId, input);
+      if ('result' in prepared) {
+        return prepared.result;
+      }
+      trashed = prepared.trashed;
+    }
+
+    return withTrashed(
+      await this.sessionManager.waitForOutput(
+        sessionId,
+        input,
+        { ...condition, timeout: condition.timeout || this.config.security.commandTimeout * 1000 },
+        onOutput,
+        signal,
+        compact
+      ),
+      trashed
+    );
+  }
+
+  /**
+   * Check that a session exists before input is sent to it
+   * Input typed at the shell prompt is a command and may need approval, and files it
+   * deletes or overwrites are saved to the trash. Returns the result to report when
+   * the input may not be sent now.
+   */
+  private async prepareSessionInput(
+    sessionId: string,
+    inputText: string
+  ): Promise<{ result: ExecutionResult } | { trashed: TrashItem[] }> {
     // Get the session
     const session = this.sessionManager.getSession(sessionId);
     if (!session) {
-      return Promise.resolve({
+      return {
+        result: {
+          success: false,
+          output: '',
+          error: `Session ${sessionId} not found`,
+          command: inputText,
+        },
+      };
+    }
+
+    let trashed: TrashItem[] = [];
+    if (
+      (this.config.approval || this.config.trash?.enabled) &&
+      this.sessionManager.isAtPrompt(session)
+    ) {
+      const cwd = this.sessionManager.getSessionCwd(session);
+      const pending = this.holdForApproval(inputText, cwd, sessionId);
+      if (pending) {
+        return { result: pending };
+      }
+      trashed = await this.saveToTrash(inputText, cwd);
+    }
+
+    return { trashed };
+  }
+
+  /**
+   * Start a command as a background job
+   */
+  public async startJob(command: string, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+    const startedAt = Date.now();
+    const cwd = this.getAuditCwd(undefined, options.cwd);
+    const result = await this.runJob(command, options.cwd || process.cwd(), options);
+
+    this.auditLog.record('start_job', command, cwd, result, Date.now() - startedAt);
+    return result;
+  }
+
+  /**
+   * Start a background job, holding it for approval if needed
+   */
+  private async runJob(
+    command: string,
+    cwd: string,
+    options: ExecutionOptions
+  ): Promise<ExecutionResult> {
+    const pending = this.holdForApproval(command, cwd);
+    if (pending) {
+      return pending;
+    }
+
+    const trashed = await this.saveToTrash(command, cwd);
+    const started = this.jobManager.start(command, { ...options, cwd });
+
+    if (!started.success || !started.job) {
+      return {
         success: false,
-        output: '',
-        error: `Session ${sessionId} not found`,
-        command: inputText,
-      });
+        output: started.denied
+          ? `Command validation failed: ${started.error}`
+          : `Failed to start job: ${started.error}`,
+        error: started.error,
+        ...(started.denied && { denied: true }),
+        command,
+      };
     }
 
-    // Calculate timeout based on config
-    const timeout = input.timeout || this.config.security.commandTimeout * 1000;
+    return withTrashed(
+      {
+        success: true,
+        output: `Started job ${started.job.id}`,
+        jobId: started.job.id,
+        command,
+      },
+      trashed
+    );
+  }
 
-    // Use the new method to send input and collect output
-    return this.sessionManager.collectOutputAfterInput(sessionId, inputText, timeout);
+  /**
+   * Get the state of a background job
+   */
+  public getJob(jobId: string): { success: boolean; job?: JobInfo; error?: string } {
+    const job = this.jobManager.getJob(jobId);
+
+    if (!job) {
+      return {
+        success: false,
+        error: `Job ${jobId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+      job,
+    };
+  }
+
+  /**
+   * Read a background job's output from a character offset
+   */
+  public readJobOutput(
+    jobId: string,
+    offset?: number,
+    limit?: number
+  ): { success: boolean; output?: JobOutput; error?: string } {
+    const output = this.jobManager.readOutput(jobId, offset, limit);
+
+    if (!output) {
+      return {
+        success: false,
+        error: `Job ${jobId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+      output,
+    };
+  }
+
+  /**
+   * Wait for a background job to finish, for a bounded number of seconds
+   */
+  public async waitJob(
+    jobId: string,
+    timeoutSeconds?: number
+  ): Promise<{ success: boolean; job?: JobInfo; error?: string }> {
+    const job = await this.jobManager.wait(jobId, timeoutSeconds);
+
+    if (!job) {
+      return {
+        success: false,
+        error: `Job ${jobId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+      job,
+    };
+  }
+
+  /**
+   * Send a signal to a background job
+   * The signal must be a name Node.js knows, such as SIGTERM
+   */
+  public killJob(
+    jobId: string,
+    signal?: NodeJS.Signals
+  ): { success: boolean; job?: JobInfo; error?: string } {
+    if (signal !== undefined && !Object.hasOwn(os.constants.signals, signal)) {
+      return {
+        success: false,
+        error: `Unknown signal "${signal}"; use a name such as SIGTERM`,
+      };
+    }
+
+    const job = this.jobManager.kill(jobId, signal);
+
+    if (!job) {
+      return {
+        success: false,
+        error: `Job ${jobId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+      job,
+    };
+  }
+
+  /**
+   * List background jobs
+   */
+  public listJobs(): JobInfo[] {
+    return this.jobManager.listJobs();
+  }
+
+  /**
+   * Read part of a command's full output by the handle given when its output was cut
+   */
+  public readOutput(
+    handle: string,
+    query: OutputQuery = {}
+  ): { success: boolean; page?: OutputPage; error?: string } {
+    let page: OutputPage | undefined;
+    try {
+      page = this.outputStore.read(handle, query);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    if (!page) {
+      return {
+        success: false,
+        error: `Output ${handle} not found or expired`,
+      };
+    }
+
+    return {
+      success: true,
+      page,
+    };
   }
 
   /**
@@ -136,6 +524,168 @@ export class BashMCP {
     return this.sessionManager.listSessions();
   }
 
+  /**
+   * Get the rendered terminal screen of a session
+   */
+  public getScreen(
+    sessionId: string,
+    withStyles = false
+  ): { success: boolean; screen?: ScreenSnapshot; error?: string } {
+    const screen = this.sessionManager.getScreen(sessionId, withStyles);
+    if (!screen) {
+      return {
+        success: false,
+        error: `Session ${sessionId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+      screen,
+    };
+  }
+
+  /**
+   * List commands waiting for approval
+   */
+  public listPendingCommands(): PendingCommand[] {
+    return this.approvalManager.listPending();
+  }
+
+  /**
+   * Approve a pending command for its next run, or for a number of seconds
+   */
+  public approveCommand(
+    pendingId: string,
+    durationSeconds?: number
+  ): { success: boolean; grant?: ApprovalGrant; error?: string } {
+    const grant = this.approvalManager.approve(pendingId, durationSeconds);
+
+    if (!grant) {
+      return {
+        success: false,
+        error: `Pending command ${pendingId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+      grant,
+    };
+  }
+
+  /**
+   * Reject a pending command
+   */
+  public rejectCommand(pendingId: string, reason?: string): { success: boolean; error?: string } {
+    const pending = this.approvalManager.reject(pendingId, reason);
+
+    if (!pending) {
+      return {
+        success: false,
+        error: `Pending command ${pendingId} not found`,
+      };
+    }
+
+    return {
+      success: true,
+    };
+  }
+
+  /**
+   * Hold a command that matches an approval rule until it is approved
+   * Returns the result to report instead of running the command, or undefined
+   * if the command may run now. Invalid commands are left to the executor to
+   * reject with the validation reason.
+   */
+  private holdForApproval(
+    command: string,
+    cwd: string,
+    sessionId?: string
+  ): ExecutionResult | undefined {
+    if (!this.config.approval || !validateCommand(command, this.config, cwd).isValid) {
+      return undefined;
+    }
+
+    const realCwd = resolveRealPath(cwd);
+    const rule = findApprovalRule(command, this.config, realCwd);
+    if (!rule || this.approvalManager.consumeGrant(command, realCwd)) {
+      return undefined;
+    }
+
+    const pending = this.approvalManager.request(command, realCwd, rule, sessionId);
+    return {
+      success: false,
+      output: `Command requires approval (${rule}). Pending ID: ${pending.id}`,
+      error: 'Command requires approval',
+      pendingApprovalId: pending.id,
+      sessionId,
+      command,
+    };
+  }
+
+  /**
+   * Save the files a command will delete or overwrite to the trash, if it is enabled
+   * Commands that will be rejected, or run in a directory that is not allowed,
+   * are skipped
+   */
+  private async saveToTrash(command: string, cwd: string): Promise<TrashItem[]> {
+    if (!this.config.trash?.enabled || !validateCommand(command, this.config, cwd).isValid) {
+      return [];
+    }
+
+    const realCwd = resolveAllowedDirectory(cwd, this.config);
+    return realCwd ? this.trashStore.save(command, realCwd) : [];
+  }
+
+  /**
+   * List the items in the trash, newest first
+   */
+  public listTrash(): TrashItem[] {
+    return this.trashStore.list();
+  }
+
+  /**
+   * Restore an item from the trash to its original path
+   */
+  public async restoreFromTrash(
+    trashId: string,
+    overwrite = false
+  ): Promise<{ success: boolean; item?: TrashItem; error?: string }> {
+    try {
+      const item = await this.trashStore.restore(trashId, overwrite);
+      return {
+        success: true,
+        item,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Check the hash chain of the audit log, by default the configured audit.file
+   */
+  public verifyAuditLog(file?: string): AuditVerification {
+    return this.auditLog.verify(file);
+  }
+
+  /**
+   * Working directory recorded in the audit log: the session's current directory,
+   * or the requested directory for stateless commands
+   */
+  private getAuditCwd(sessionId?: string, cwd?: string): string {
+    if (!this.config.audit) {
+      return '';
+    }
+
+    const session = sessionId ? this.sessionManager.getSession(sessionId) : undefined;
+    return session ? this.sessionManager.getSessionCwd(session) : cwd || process.cwd();
+  }
+
   /**
    * Get the current configuration
    */
@@ -149,5 +699,14 @@ export class BashMCP {
   public shutdown(): void {
     // logger.info('Shutting down Bash MCP');
     this.sessionManager.shutdown();
+    this.jobManager.shutdown();
+    this.outputStore.shutdown();
   }
 }
+
+/**
+ * Add the items saved to the trash before a command ran to its result
+ */
+function withTrashed(result: ExecutionResult, trashed: TrashItem[]): ExecutionResult {
+  return trashed.length > 0 ? { ...result, trashed } : result;
+}
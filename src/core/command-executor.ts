@@ -1,13 +1,46 @@
-import { spawn } from 'child_process';
-import { MCPConfig, ExecutionOptions, ExecutionResult } from '../types/index.js';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import {
+  CompactionConfig,
+  MCPConfig,
+  ExecutionOptions,
+  ExecutionResult,
+  OutputListener,
+  ResourceLimits,
+} from '../types/index.js';
+import { estimateTokens, getCompaction } from '../utils/compactor.js';
+import { buildEnvironment, validateEnvironment } from '../utils/environment.js';
+import { getChangeRoots, reportChanges, takeSnapshot } from '../utils/file-changes.js';
 import { logger } from '../utils/logger.js';
-import { validateCommand, sanitizeOutput, isDirectoryAllowed } from '../utils/validator.js';
+import { createOutputStream } from '../utils/output-stream.js';
+import { terminateProcesses } from '../utils/process-tree.js';
+import {
+  buildUlimitCommand,
+  describeLimitExceeded,
+  detectLimitExceeded,
+  getResourceLimits,
+} from '../utils/resource-limits.js';
+import { buildSandboxCommand } from '../utils/sandbox.js';
+import {
+  validateCommand,
+  sanitizeOutputWithReport,
+  sanitizeStreamOutput,
+  resolveAllowedDirectory,
+} from '../utils/validator.js';
+import { OutputStore } from './output-store.js';
+
+// Seconds between SIGTERM and SIGKILL when a command is stopped
+export const DEFAULT_KILL_GRACE_PERIOD = 5;
+
+const DEFAULT_MAX_STDIN_SIZE = 1024 * 1024;
 
 export class CommandExecutor {
   private config: MCPConfig;
+  private outputStore?: OutputStore;
+  private terminating: WeakSet<ChildProcessWithoutNullStreams> = new WeakSet(); // Stopped by terminateProcess
 
-  constructor(config: MCPConfig) {
+  constructor(config: MCPConfig, outputStore?: OutputStore) {
     this.config = config;
+    this.outputStore = outputStore;
   }
 
   /**
@@ -19,57 +52,96 @@ export class CommandExecutor {
   ): Promise<ExecutionResult> {
     // Use default options if not provided
     const timeout = options.timeout || this.config.security.commandTimeout;
-    const cwd = options.cwd || process.cwd();
 
-    // Handle environment variables - ensure all values are strings
-    let env = options.env;
-    if (!env) {
-      env = {};
-      Object.entries(process.env).forEach(([key, value]) => {
-        if (value !== undefined) {
-          env![key] = value;
-        }
-      });
+    // Validate the command, its environment and its directory
+    const prepared = this.prepareCommand(command, options);
+    if ('denied' in prepared) {
+      return prepared.denied;
     }
+    const { cwd: realCwd, env } = prepared;
 
-    // Validate the command
-    const validation = validateCommand(command, this.config);
-    if (!validation.isValid) {
-      // logger.warn(`Command validation failed: ${validation.reason}`);
-      return {
-        success: false,
-        output: `Command validation failed: ${validation.reason}`,
-        error: validation.reason,
-        command,
-      };
-    }
-
-    // Validate the directory
-    if (!isDirectoryAllowed(cwd, this.config)) {
-      // logger.warn(`Directory not allowed: ${cwd}`);
-      return {
-        success: false,
-        output: `Directory not allowed: ${cwd}`,
-        error: `Directory not allowed: ${cwd}`,
-        command,
-      };
+    const stdin = this.decodeStdin(command, options);
+    if (stdin && 'denied' in stdin) {
+      return stdin.denied;
     }
 
     // Log the command execution
-    // logger.info(`Executing command: ${command} in directory: ${cwd}`);
+    // logger.info(`Executing command: ${command} in directory: ${realCwd}`);
 
     try {
-      // Execute the command
-      const result = await this.spawnCommand(command, cwd, env, timeout);
-
-      // Sanitize the output
-      const sanitizedOutput = sanitizeOutput(result.output, this.config);
+      // Snapshot the directories the command may change
+      const changeRoots = this.config.changeTracking?.enabled
+        ? getChangeRoots(command, this.config, realCwd)
+        : [];
+      const before = changeRoots.length > 0 ? await takeSnapshot(changeRoots, this.config) : undefined;
 
-      return {
-        ...result,
-        output: sanitizedOutput,
+      // Execute the command under its resource limits
+      const limits = getResourceLimits(command, this.config);
+      const result = await this.spawnCommand(
         command,
+        realCwd,
+        env,
+        timeout,
+        limits,
+        options.onOutput,
+        options.signal,
+        stdin?.data
+      );
+
+      const changes =
+        changeRoots.length > 0
+          ? await reportChanges(changeRoots, before, this.config)
+          : undefined;
+
+      // The full output is kept once, however often it is compacted below
+      let handle: string | undefined;
+      const keep = (full: string) => (handle ??= this.outputStore?.save(full, command));
+
+      // Sanitize the output and redact secrets
+      const describe = (
+        compactionSettings: CompactionConfig | undefined,
+        withStreams: boolean
+      ): ExecutionResult => {
+        const { output, redactions, truncated, outputHandle, compaction } =
+          sanitizeOutputWithReport(result.output, this.config, keep, compactionSettings);
+        const stdout = sanitizeStreamOutput(result.stdout || '', this.config, compactionSettings);
+        const stderr = sanitizeStreamOutput(result.stderr || '', this.config, compactionSettings);
+
+        // The streams repeat the output, so they are left out when it was cut
+        const cut =
+          truncated || stdout.truncated || stderr.truncated || !!compaction?.omittedLines;
+
+        return {
+          ...result,
+          output,
+          stdout: withStreams && !cut ? stdout.output : undefined,
+          stderr: withStreams && !cut ? stderr.output : undefined,
+          truncated: truncated || stdout.truncated || stderr.truncated,
+          ...(outputHandle && { outputHandle }),
+          ...(compaction && { compaction }),
+          cwd: realCwd,
+          ...(Object.keys(redactions).length > 0 && { redactions }),
+          ...(changes && { changes }),
+          command,
+        };
       };
+
+      // The token budget covers the whole response: the output and the JSON
+      // describing the run, without the streams when they do not fit
+      const compactionSettings = getCompaction(this.config, options.compact);
+      const budget = compactionSettings?.tokenBudget;
+      let response = describe(compactionSettings, true);
+      if (compactionSettings && budget !== undefined && estimateResultTokens(response) > budget) {
+        response = describe(compactionSettings, false);
+        const overhead = estimateResultTokens(response) - estimateTokens(response.output);
+        if (estimateResultTokens(response) > budget) {
+          response = describe(
+            { ...compactionSettings, tokenBudget: Math.max(0, budget - overhead) },
+            false
+          );
+        }
+      }
+      return response;
     } catch (error) {
       logger.error(
         `Command execution error: ${error instanceof Error ? error.message : String(error)}`
@@ -84,54 +156,278 @@ export class CommandExecutor {
   }
 
   /**
-   * Spawn a child process to execute the command
+   * Validate a command, its requested environment and its working directory
+   * Returns the real working directory and the environment to run the command
+   * with, or the result to report when the command may not run
    */
-  private spawnCommand(
+  public prepareCommand(
+    command: string,
+    options: ExecutionOptions = {}
+  ): { cwd: string; env: NodeJS.ProcessEnv } | { denied: ExecutionResult } {
+    const cwd = options.cwd || process.cwd();
+
+    // Validate the command
+    const validation = validateCommand(command, this.config, cwd);
+    if (!validation.isValid) {
+      // logger.warn(`Command validation failed: ${validation.reason}`);
+      return {
+        denied: {
+          success: false,
+          output: `Command validation failed: ${validation.reason}`,
+          error: validation.reason,
+          denied: true,
+          command,
+        },
+      };
+    }
+
+    // Validate requested environment variables; the rest of the environment is scrubbed
+    const envValidation = validateEnvironment(options.env || {}, this.config);
+    if (!envValidation.isValid) {
+      return {
+        denied: {
+          success: false,
+          output: `Environment validation failed: ${envValidation.reason}`,
+          error: envValidation.reason,
+          denied: true,
+          command,
+        },
+      };
+    }
+
+    // Validate the directory by its real path, so symlinks cannot escape the allowed roots
+    const realCwd = resolveAllowedDirectory(cwd, this.config);
+    if (!realCwd) {
+      // logger.warn(`Directory not allowed: ${cwd}`);
+      return {
+        denied: {
+          success: false,
+          output: `Directory not allowed: ${cwd}`,
+          error: `Directory not allowed: ${cwd}`,
+          denied: true,
+          command,
+        },
+      };
+    }
+
+    return { cwd: realCwd, env: buildEnvironment(this.config, options.env) };
+  }
+
+  /**
+   * Decode the input to give a command on stdin, enforcing security.maxStdinSize
+   * Returns undefined when there is no input, or the result to report when the
+   * input is rejected
+   */
+  private decodeStdin(
+    command: string,
+    options: ExecutionOptions
+  ): { data: Buffer } | { denied: ExecutionResult } | undefined {
+    if (options.stdin === undefined) {
+      return undefined;
+    }
+
+    let reason: string | undefined;
+    let data = Buffer.alloc(0);
+    if (options.stdinEncoding === 'base64') {
+      const base64 = options.stdin.replace(/\s/g, '');
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 === 1) {
+        reason = 'stdin is not valid base64';
+      } else {
+        data = Buffer.from(base64, 'base64');
+      }
+    } else {
+      data = Buffer.from(options.stdin, 'utf8');
+    }
+
+    const maxSize = this.config.security.maxStdinSize ?? DEFAULT_MAX_STDIN_SIZE;
+    if (!reason && data.length > maxSize) {
+      reason = `stdin is ${data.length} bytes, more than the limit of ${maxSize}`;
+    }
+
+    if (reason) {
+      return {
+        denied: {
+          success: false,
+          output: `Stdin validation failed: ${reason}`,
+          error: reason,
+          denied: true,
+          command,
+        },
+      };
+    }
+
+    return { data };
+  }
+
+  /**
+   * Start a child process for a validated command
+   * The command runs under its ulimit prefix, inside the sandbox when it is enabled,
+   * in a process group of its own. Processes still in the group when the command
+   * exits are stopped, so that nothing it left in the background outlives it.
+   * Returns the process and whether resource limits were applied.
+   */
+  public spawnProcess(
     command: string,
     cwd: string,
     env: NodeJS.ProcessEnv,
-    timeoutSeconds: number
-  ): Promise<ExecutionResult> {
-    return new Promise((resolve) => {
+    limits: ResourceLimits = {}
+  ): { childProcess: ChildProcessWithoutNullStreams; limited: boolean } {
+    // Apply resource limits with ulimit before the command. Commands always run in
+    // bash, the shell the validator parses them as.
+    const ulimit = buildUlimitCommand(limits);
+    const script = ulimit ? `${ulimit}; ${command}` : command;
+    const detached = process.platform !== 'win32';
+
+    // Create the child process, inside the sandbox when it is enabled
+    let childProcess: ChildProcessWithoutNullStreams;
+    if (this.config.sandbox?.enabled) {
+      const sandbox = buildSandboxCommand(script, cwd, this.config);
+      childProcess = spawn(sandbox.file, sandbox.args, { cwd, env, detached });
+    } else {
       // Split the command into the executable and arguments
-      const [cmd, ...args] = command.split(' ');
+      const [cmd, ...args] = script.split(' ');
 
-      // Create the child process
-      const childProcess = spawn(cmd, args, {
+      childProcess = spawn(cmd, args, {
         cwd,
         env,
-        shell: true,
+        shell: 'bash',
+        detached,
       });
+    }
+
+    childProcess.on('exit', () => {
+      if (!detached || !childProcess.pid || this.terminating.has(childProcess)) {
+        return;
+      }
+      terminateProcesses('group', childProcess.pid, this.getKillGracePeriod()).then((left) => {
+        if (left > 0) {
+          logger.warn(`Stopped ${left} process(es) left running by "${command}"`);
+        }
+      });
+    });
+
+    return { childProcess, limited: !!ulimit };
+  }
+
+  /**
+   * Stop a process started by spawnProcess together with everything it started
+   * Sends SIGTERM to its process group, then SIGKILL to whatever is left after
+   * security.killGracePeriod seconds
+   */
+  public async terminateProcess(childProcess: ChildProcessWithoutNullStreams): Promise<void> {
+    if (process.platform === 'win32' || !childProcess.pid) {
+      childProcess.kill();
+      return;
+    }
+
+    this.terminating.add(childProcess);
+    await terminateProcesses('group', childProcess.pid, this.getKillGracePeriod());
+  }
+
+  private getKillGracePeriod(): number {
+    return this.config.security.killGracePeriod ?? DEFAULT_KILL_GRACE_PERIOD;
+  }
+
+  /**
+   * Spawn a child process to execute the command
+   */
+  private spawnCommand(
+    command: string,
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    timeoutSeconds: number,
+    limits: ResourceLimits = {},
+    onOutput?: OutputListener,
+    signal?: AbortSignal,
+    stdin?: Buffer
+  ): Promise<ExecutionResult> {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const { childProcess, limited } = this.spawnProcess(command, cwd, env, limits);
 
       let stdout = '';
       let stderr = '';
       let killed = false;
+      let cancelled = false;
+      const outputStream = createOutputStream(this.config, onOutput);
 
       // Collect stdout
       childProcess.stdout.on('data', (data) => {
         stdout += data.toString();
+        outputStream.write(data.toString(), 'stdout');
       });
 
       // Collect stderr
       childProcess.stderr.on('data', (data) => {
         stderr += data.toString();
+        outputStream.write(data.toString(), 'stderr');
       });
 
+      // Feed the input and close stdin; the command may exit without reading all of it
+      if (stdin) {
+        childProcess.stdin.on('error', () => {});
+        childProcess.stdin.end(stdin);
+      }
+
       // Handle process completion
-      childProcess.on('close', (code) => {
-        if (killed) {
+      childProcess.on('close', (code, signal) => {
+        outputStream.flush();
+
+        const limitExceeded = limited
+          ? detectLimitExceeded(limits, code, signal, stdout + stderr)
+          : undefined;
+
+        // Exit status shared by every outcome; a process killed by a signal has no exit code
+        const status: Partial<ExecutionResult> = {
+          output: stdout + stderr,
+          stdout,
+          stderr,
+          ...(code !== null && { exitCode: code }),
+          ...(signal && { signal }),
+          durationMs: Date.now() - startedAt,
+        };
+
+        if (cancelled) {
           resolve({
+            ...status,
+            success: false,
+            output: stdout + stderr,
+            error: 'Command was cancelled',
+            cancelled: true,
+            command,
+          });
+        } else if (killed) {
+          resolve({
+            ...status,
             success: false,
             output: stdout + stderr,
-            exitCode: code || undefined,
             error: 'Command execution timed out',
+            timedOut: true,
+            command,
+          });
+        } else if (limitExceeded) {
+          logger.warn(`Resource limit stopped command "${command}": ${limitExceeded}`);
+          resolve({
+            ...status,
+            success: false,
+            output: stdout + stderr,
+            error: `Command stopped: ${describeLimitExceeded(limitExceeded, limits)}`,
+            limitExceeded,
+            command,
+          });
+        } else if (code === null) {
+          resolve({
+            ...status,
+            success: false,
+            output: stdout + stderr,
+            error: `Command terminated by signal ${signal}`,
             command,
           });
         } else {
           resolve({
+            ...status,
             success: code === 0,
             output: stdout + stderr,
-            exitCode: code || undefined,
             error: code !== 0 ? `Command exited with code ${code}` : undefined,
             command,
           });
@@ -143,6 +439,9 @@ export class CommandExecutor {
         resolve({
           success: false,
           output: stdout + stderr,
+          stdout,
+          stderr,
+          durationMs: Date.now() - startedAt,
           error: error.message,
           command,
         });
@@ -152,13 +451,38 @@ export class CommandExecutor {
       const timeoutId = setTimeout(() => {
         // logger.warn(`Command timed out after ${timeoutSeconds} seconds: ${command}`);
         killed = true;
-        childProcess.kill();
+        this.terminateProcess(childProcess);
       }, timeoutSeconds * 1000);
 
+      // Stop the process when the request is cancelled
+      const cancel = () => {
+        if (cancelled || killed) {
+          return;
+        }
+        cancelled = true;
+        logger.info(`Cancelled command "${command}"`);
+        this.terminateProcess(childProcess);
+      };
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener('abort', cancel, { once: true });
+      }
+
       // Clear the timeout if the process completes before the timeout
       childProcess.on('close', () => {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', cancel);
       });
     });
   }
 }
+
+/**
+ * Estimate the tokens of a result as execute_command returns it: the output,
+ * then the rest of the result as JSON
+ */
+function estimateResultTokens(result: ExecutionResult): number {
+  const { output, ...structured } = result;
+  return estimateTokens(output) + estimateTokens(JSON.stringify(structured, null, 2));
+}
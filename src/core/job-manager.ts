@@ -0,0 +1,346 @@
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import { ExecutionOptions, JobInfo, JobOutput, MCPConfig } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { signalProcesses } from '../utils/process-tree.js';
+import { createStreamRedactor, StreamRedactor } from '../utils/redactor.js';
+import {
+  describeLimitExceeded,
+  detectLimitExceeded,
+  getResourceLimits,
+} from '../utils/resource-limits.js';
+import { CommandExecutor } from './command-executor.js';
+
+const DEFAULT_MAX_JOBS = 10;
+const DEFAULT_MAX_OUTPUT_SIZE = 1024 * 1024;
+const DEFAULT_RETENTION = 3600;
+const DEFAULT_MAX_WAIT = 60;
+
+// Signals sent to stop a job; a job that ends after one of them is reported as killed
+const TERMINATING_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGKILL', 'SIGINT', 'SIGHUP', 'SIGQUIT'];
+
+interface Job {
+  info: JobInfo;
+  process?: ChildProcessWithoutNullStreams;
+  output: string; // The newest redacted output, up to jobs.maxOutputSize characters
+  dropped: number; // Characters dropped from the start of the output
+  redactors?: Record<'stdout' | 'stderr', StreamRedactor>; // Unset when redaction is off
+  killRequested: boolean;
+  waiters: (() => void)[];
+}
+
+export class JobManager {
+  private config: MCPConfig;
+  private commandExecutor: CommandExecutor;
+  private jobs: Map<string, Job> = new Map();
+
+  constructor(config: MCPConfig, commandExecutor: CommandExecutor) {
+    this.config = config;
+    this.commandExecutor = commandExecutor;
+  }
+
+  /**
+   * Start a command in the background
+   * The command is validated like a stateless command and runs under its resource
+   * limits, but without the command timeout. Finished jobs are dropped to make room;
+   * if all kept jobs are still running, the job is not started.
+   */
+  public start(
+    command: string,
+    options: ExecutionOptions = {}
+  ): { success: boolean; job?: JobInfo; error?: string; denied?: boolean } {
+    const prepared = this.commandExecutor.prepareCommand(command, options);
+    if ('denied' in prepared) {
+      return { success: false, error: prepared.denied.error, denied: true };
+    }
+
+    this.pruneJobs(1);
+    const maxJobs = this.config.jobs?.maxJobs ?? DEFAULT_MAX_JOBS;
+    if (this.jobs.size >= maxJobs) {
+      return {
+        success: false,
+        error: `Too many running jobs (max ${maxJobs}); wait for or kill a job first`,
+      };
+    }
+
+    const limits = getResourceLimits(command, this.config);
+    const job: Job = {
+      info: {
+        id: uuidv4(),
+        command,
+        cwd: prepared.cwd,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        outputSize: 0,
+      },
+      output: '',
+      dropped: 0,
+      killRequested: false,
+      waiters: [],
+    };
+    if (this.config.security.redactSecrets !== false) {
+      const patterns = this.config.security.redactionPatterns;
+      job.redactors = {
+        stdout: createStreamRedactor(patterns),
+        stderr: createStreamRedactor(patterns),
+      };
+    }
+
+    try {
+      const { childProcess, limited } = this.commandExecutor.spawnProcess(
+        command,
+        prepared.cwd,
+        prepared.env,
+        limits
+      );
+      job.process = childProcess;
+      job.info.pid = childProcess.pid;
+
+      childProcess.stdout.on('data', (data: Buffer) =>
+        this.appendOutput(job, 'stdout', data.toString())
+      );
+      childProcess.stderr.on('data', (data: Buffer) =>
+        this.appendOutput(job, 'stderr', data.toString())
+      );
+
+      childProcess.on('close', (code, signal) => {
+        this.flushOutput(job);
+        const limitExceeded = limited
+          ? detectLimitExceeded(limits, code, signal, job.output)
+          : undefined;
+
+        if (job.killRequested) {
+          job.info.status = 'killed';
+        } else {
+          job.info.status = code === 0 ? 'succeeded' : 'failed';
+        }
+        if (code !== null) {
+          job.info.exitCode = code;
+        }
+        if (signal) {
+          job.info.signal = signal;
+        }
+        if (limitExceeded) {
+          job.info.limitExceeded = limitExceeded;
+          job.info.error = `Command stopped: ${describeLimitExceeded(limitExceeded, limits)}`;
+        }
+        this.finish(job);
+      });
+
+      childProcess.on('error', (error) => {
+        this.flushOutput(job);
+        job.info.status = 'failed';
+        job.info.error = error.message;
+        this.finish(job);
+      });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    this.jobs.set(job.info.id, job);
+    logger.info(`Started job ${job.info.id} (pid ${job.info.pid}): ${command}`);
+
+    return { success: true, job: { ...job.info } };
+  }
+
+  /**
+   * Get the state of a job
+   */
+  public getJob(jobId: string): JobInfo | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job.info } : undefined;
+  }
+
+  /**
+   * List all kept jobs, oldest first
+   */
+  public listJobs(): JobInfo[] {
+    this.pruneJobs();
+    return Array.from(this.jobs.values()).map((job) => ({ ...job.info }));
+  }
+
+  /**
+   * Read a job's output from a character offset
+   * Secrets are redacted as the output arrives, so offsets count redacted output and
+   * a running job's last line is only readable once it ends. Output older than
+   * jobs.maxOutputSize characters is no longer kept; reading from before it starts
+   * at the oldest kept output and reports the gap as skipped.
+   */
+  public readOutput(jobId: string, offset = 0, limit?: number): JobOutput | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    const maxSize = limit ?? this.config.jobs?.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+    const start = Math.min(Math.max(offset, job.dropped), job.info.outputSize);
+    const output = job.output.substring(start - job.dropped, start - job.dropped + maxSize);
+
+    return {
+      jobId,
+      offset: start,
+      nextOffset: start + output.length,
+      output,
+      skipped: Math.max(0, job.dropped - offset),
+      running: job.info.status === 'running',
+    };
+  }
+
+  /**
+   * Wait until a job finishes, for at most jobs.maxWait seconds
+   * Returns the job's state when it finished or the wait ran out
+   */
+  public async wait(jobId: string, timeoutSeconds?: number): Promise<JobInfo | undefined> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.info.status === 'running') {
+      const maxWait = this.config.jobs?.maxWait ?? DEFAULT_MAX_WAIT;
+      const seconds = Math.min(timeoutSeconds ?? maxWait, maxWait);
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, seconds * 1000);
+        function done() {
+          clearTimeout(timer);
+          resolve();
+        }
+        job.waiters.push(done);
+      });
+    }
+
+    return { ...job.info };
+  }
+
+  /**
+   * Send a signal to a running job and every process it started
+   * Without a signal the job is stopped: SIGTERM, then SIGKILL once
+   * security.killGracePeriod seconds have passed. Signals that do not stop a
+   * program, such as SIGSTOP or SIGUSR1, leave the job's status to its exit.
+   */
+  public kill(jobId: string, signal?: NodeJS.Signals): JobInfo | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.info.status === 'running' && job.process) {
+      job.killRequested ||= !signal || TERMINATING_SIGNALS.includes(signal);
+      if (signal) {
+        this.signalJob(job.process, signal);
+        logger.info(`Sent ${signal} to job ${jobId}`);
+      } else {
+        this.commandExecutor.terminateProcess(job.process);
+        logger.info(`Stopping job ${jobId}`);
+      }
+    }
+
+    return { ...job.info };
+  }
+
+  /**
+   * Kill all running jobs and forget them
+   * Their output streams are closed as well, since programs they started may
+   * still hold them open
+   */
+  public shutdown(): void {
+    for (const job of this.jobs.values()) {
+      if (job.info.status === 'running' && job.process) {
+        job.killRequested = true;
+        this.signalJob(job.process, 'SIGKILL');
+        job.process.stdout.destroy();
+        job.process.stderr.destroy();
+      }
+    }
+    this.jobs.clear();
+  }
+
+  /**
+   * Signal a job's process group, or only the job's process where there is none
+   */
+  private signalJob(childProcess: ChildProcessWithoutNullStreams, signal: NodeJS.Signals): void {
+    if (process.platform === 'win32' || !childProcess.pid) {
+      childProcess.kill(signal);
+      return;
+    }
+    signalProcesses('group', childProcess.pid, signal);
+  }
+
+  /**
+   * Add a chunk of a job's output, redacted
+   */
+  private appendOutput(job: Job, stream: 'stdout' | 'stderr', chunk: string): void {
+    this.keepOutput(job, job.redactors ? job.redactors[stream].write(chunk) : chunk);
+  }
+
+  /**
+   * Add the output the redactors still hold once a job's streams have ended
+   */
+  private flushOutput(job: Job): void {
+    if (job.redactors) {
+      this.keepOutput(job, job.redactors.stdout.flush() + job.redactors.stderr.flush());
+    }
+  }
+
+  /**
+   * Keep the newest jobs.maxOutputSize characters of a job's output
+   */
+  private keepOutput(job: Job, data: string): void {
+    const maxSize = this.config.jobs?.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+
+    job.output += data;
+    job.info.outputSize += data.length;
+    if (job.output.length > maxSize) {
+      job.dropped += job.output.length - maxSize;
+      job.output = job.output.substring(job.output.length - maxSize);
+    }
+  }
+
+  /**
+   * Record that a job has finished and wake up its waiters
+   */
+  private finish(job: Job): void {
+    if (job.info.finishedAt) {
+      return;
+    }
+
+    job.info.finishedAt = new Date().toISOString();
+    job.process = undefined;
+    logger.info(
+      `Job ${job.info.id} ${job.info.status}` +
+        (job.info.exitCode !== undefined ? ` with exit code ${job.info.exitCode}` : '') +
+        (job.info.signal ? ` by ${job.info.signal}` : '')
+    );
+
+    for (const wake of job.waiters.splice(0)) {
+      wake();
+    }
+  }
+
+  /**
+   * Drop finished jobs older than jobs.retention, then the oldest finished jobs
+   * until there is room for the given number of new jobs
+   */
+  private pruneJobs(room = 0): void {
+    const now = Date.now();
+    const retention = this.config.jobs?.retention ?? DEFAULT_RETENTION;
+    const maxJobs = this.config.jobs?.maxJobs ?? DEFAULT_MAX_JOBS;
+
+    for (const [id, job] of this.jobs) {
+      const finishedAt = job.info.finishedAt ? new Date(job.info.finishedAt).getTime() : undefined;
+      if (finishedAt !== undefined && now - finishedAt > retention * 1000) {
+        this.jobs.delete(id);
+      }
+    }
+
+    for (const [id, job] of this.jobs) {
+      if (this.jobs.size + room <= maxJobs) {
+        break;
+      }
+      if (job.info.finishedAt) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MCPConfig, OutputPage, OutputQuery } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { takeBytes } from '../utils/validator.js';
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_MAX_MEMORY = 16 * 1024 * 1024;
+const DEFAULT_MAX_DISK_SIZE = 256 * 1024 * 1024;
+const DEFAULT_TTL = 3600;
+
+interface StoredOutput {
+  handle: string;
+  command: string;
+  size: number; // Bytes, UTF-8 encoded
+  lines: number;
+  lastRead: number;
+  data?: Buffer; // Set while the output is in memory; otherwise it is spilled to disk
+}
+
+export class OutputStore {
+  private config: MCPConfig;
+  private outputs: Map<string, StoredOutput> = new Map(); // Least recently used first
+
+  constructor(config: MCPConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Keep the full output of a command and return its handle
+   * The output should already be redacted. Returns undefined when the store is
+   * disabled or the output is too large to keep.
+   */
+  public save(output: string, command: string): string | undefined {
+    if (!this.config.outputStore?.enabled) {
+      return undefined;
+    }
+
+    const data = Buffer.from(output, 'utf8');
+    const stored: StoredOutput = {
+      handle: uuidv4(),
+      command,
+      size: data.length,
+      lines: splitLines(output).length,
+      lastRead: Date.now(),
+      data,
+    };
+    this.outputs.set(stored.handle, stored);
+    this.prune();
+
+    if (!this.outputs.has(stored.handle)) {
+      logger.warn(`Output of "${command}" is too large to keep (${stored.size} bytes)`);
+      return undefined;
+    }
+    return stored.handle;
+  }
+
+  /**
+   * Read part of a stored output: a byte range, a line range, or the lines matching
+   * a pattern, up to security.maxOutputSize bytes
+   * Returns undefined for unknown or expired handles. Throws if the pattern is not
+   * a valid regular expression.
+   */
+  public read(handle: string, query: OutputQuery = {}): OutputPage | undefined {
+    this.prune();
+    const stored = this.outputs.get(handle);
+    if (!stored) {
+      return undefined;
+    }
+
+    // Mark the output as the most recently used
+    stored.lastRead = Date.now();
+    this.outputs.delete(handle);
+    this.outputs.set(handle, stored);
+
+    const maxSize = this.config.security.maxOutputSize;
+    const page: OutputPage = {
+      handle,
+      output: '',
+      totalBytes: stored.size,
+      totalLines: stored.lines,
+    };
+
+    if (query.pattern !== undefined) {
+      const regex = new RegExp(query.pattern);
+      const matching: string[] = [];
+      splitLines(this.load(stored)).forEach((line, index) => {
+        if (regex.test(line)) {
+          matching.push(`${index + 1}:${line}\n`);
+        }
+      });
+
+      const { text, truncated } = takeLines(matching, maxSize);
+      return { ...page, output: text, matches: matching.length, truncated };
+    }
+
+    if (query.startLine !== undefined || query.endLine !== undefined) {
+      const lines = splitLines(this.load(stored));
+      const startLine = Math.max(1, query.startLine ?? 1);
+      const endLine = Math.min(lines.length, query.endLine ?? lines.length);
+      const wanted = lines
+        .slice(startLine - 1, Math.max(startLine - 1, endLine))
+        .map((line) => `${line}\n`);
+
+      const { text, count, truncated } = takeLines(wanted, maxSize);
+      return { ...page, output: text, startLine, endLine: startLine + count - 1, truncated };
+    }
+
+    const offset = Math.min(Math.max(query.offset ?? 0, 0), stored.size);
+    const length = Math.min(Math.max(query.length ?? maxSize, 0), maxSize, stored.size - offset);
+    return {
+      ...page,
+      output: this.loadBytes(stored, offset, length).toString('utf8'),
+      offset,
+      nextOffset: offset + length,
+    };
+  }
+
+  /**
+   * Forget all outputs and remove the ones spilled to disk
+   */
+  public shutdown(): void {
+    for (const stored of this.outputs.values()) {
+      this.remove(stored);
+    }
+  }
+
+  /**
+   * Remove expired outputs and the least recently used ones beyond maxEntries,
+   * spill the least recently used outputs to disk beyond maxMemory, then remove
+   * the least recently used spilled outputs beyond maxDiskSize
+   */
+  private prune(): void {
+    const store = this.config.outputStore;
+    if (!store) {
+      return;
+    }
+
+    const now = Date.now();
+    const ttl = store.ttl ?? DEFAULT_TTL;
+    const maxEntries = store.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    for (const stored of Array.from(this.outputs.values())) {
+      if (now - stored.lastRead > ttl * 1000 || this.outputs.size > maxEntries) {
+        this.remove(stored);
+      }
+    }
+
+    const maxMemory = store.maxMemory ?? DEFAULT_MAX_MEMORY;
+    let inMemory = this.sumSizes((stored) => !!stored.data);
+    for (const stored of this.outputs.values()) {
+      if (inMemory <= maxMemory) {
+        break;
+      }
+      if (stored.data) {
+        inMemory -= stored.size;
+        this.spill(stored);
+      }
+    }
+
+    const maxDiskSize = store.maxDiskSize ?? DEFAULT_MAX_DISK_SIZE;
+    let onDisk = this.sumSizes((stored) => !stored.data);
+    for (const stored of Array.from(this.outputs.values())) {
+      if (onDisk <= maxDiskSize) {
+        break;
+      }
+      if (!stored.data) {
+        onDisk -= stored.size;
+        this.remove(stored);
+      }
+    }
+  }
+
+  /**
+   * Move an output from memory to disk, or drop it if it cannot be written
+   */
+  private spill(stored: StoredOutput): void {
+    try {
+      const file = this.getFile(stored.handle);
+      fs.ensureDirSync(path.dirname(file));
+      fs.writeFileSync(file, stored.data!);
+      stored.data = undefined;
+      logger.debug(`Spilled output ${stored.handle} of "${stored.command}" to disk`);
+    } catch (error) {
+      logger.error(
+        `Failed to spill output ${stored.handle}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      this.outputs.delete(stored.handle);
+    }
+  }
+
+  private remove(stored: StoredOutput): void {
+    this.outputs.delete(stored.handle);
+    if (!stored.data) {
+      fs.removeSync(this.getFile(stored.handle));
+    }
+    logger.debug(`Removed output ${stored.handle} of "${stored.command}"`);
+  }
+
+  private load(stored: StoredOutput): string {
+    return (stored.data ?? fs.readFileSync(this.getFile(stored.handle))).toString('utf8');
+  }
+
+  private loadBytes(stored: StoredOutput, offset: number, length: number): Buffer {
+    if (stored.data) {
+      return stored.data.subarray(offset, offset + length);
+    }
+
+    const buffer = Buffer.alloc(length);
+    const fd = fs.openSync(this.getFile(stored.handle), 'r');
+    try {
+      fs.readSync(fd, buffer, 0, length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return buffer;
+  }
+
+  private sumSizes(filter: (stored: StoredOutput) => boolean): number {
+    return Array.from(this.outputs.values())
+      .filter(filter)
+      .reduce((sum, stored) => sum + stored.size, 0);
+  }
+
+  private getFile(handle: string): string {
+    return path.join(this.config.outputStore?.directory || '', `${handle}.out`);
+  }
+}
+
+/**
+ * Split text into lines, without an empty line after a final newline
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (text.endsWith('\n')) {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Join whole lines up to a number of bytes
+ * A first line longer than the limit is cut, so that something is always returned.
+ * Returns the text, the number of lines it holds and whether anything was left out.
+ */
+function takeLines(
+  lines: string[],
+  maxSize: number
+): { text: string; count: number; truncated: boolean } {
+  let text = '';
+  let size = 0;
+  let count = 0;
+  for (const line of lines) {
+    const lineSize = Buffer.byteLength(line);
+    if (size + lineSize > maxSize) {
+      if (count === 0) {
+        return { text: takeBytes(line, maxSize), count: 1, truncated: true };
+      }
+      return { text, count, truncated: true };
+    }
+    text += line;
+    size += lineSize;
+    count++;
+  }
+  return { text, count, truncated: false };
+}
@@ -1,16 +1,58 @@
 import * as pty from 'node-pty';
+import fs from 'fs-extra';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { MCPConfig, Session, ExecutionResult } from '../types/index.js';
+import {
+  MCPConfig,
+  Session,
+  ExecutionResult,
+  OutputListener,
+  OutputMatch,
+  ScreenSnapshot,
+  WaitCondition,
+} from '../types/index.js';
+import { createCommandMarkers } from '../utils/command-markers.js';
+import { getCompaction, stripAnsi } from '../utils/compactor.js';
+import { buildEnvironment } from '../utils/environment.js';
 import { logger } from '../utils/logger.js';
-import { isDirectoryAllowed } from '../utils/validator.js';
+import { createOutputStream } from '../utils/output-stream.js';
+import { findGroupLeader, getForegroundGroup, terminateProcesses } from '../utils/process-tree.js';
+import { redactSecrets } from '../utils/redactor.js';
+import { buildUlimitCommand } from '../utils/resource-limits.js';
+import { buildSandboxCommand } from '../utils/sandbox.js';
+import { createTerminalScreen } from '../utils/terminal-screen.js';
+import { DEFAULT_KILL_GRACE_PERIOD } from './command-executor.js';
+import { OutputStore } from './output-store.js';
+import {
+  resolveAllowedDirectory,
+  sanitizeOutputWithReport,
+  validateCommand,
+  validateInteractiveInput,
+} from '../utils/validator.js';
+
+// The shell started in every session
+const SHELL = process.platform === 'win32' ? 'powershell.exe' : 'bash';
+
+// bash starts without rc files, whose aliases and functions could change what an
+// allowed command runs, and without history expansion, which rewrites validated input
+const SHELL_ARGS = process.platform === 'win32' ? [] : ['--norc', '--noprofile', '+H'];
+
+// Milliseconds to collect output after input to a program running in a session
+const DEFAULT_INPUT_WAIT = 1000;
+
+// Size of each session's terminal
+const TERMINAL_COLUMNS = 80;
+const TERMINAL_ROWS = 30;
 
 export class SessionManager {
   private sessions: Map<string, Session> = new Map();
   private config: MCPConfig;
+  private outputStore?: OutputStore;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(config: MCPConfig) {
+  constructor(config: MCPConfig, outputStore?: OutputStore) {
     this.config = config;
+    this.outputStore = outputStore;
     this.startCleanupInterval();
   }
 
@@ -18,8 +60,9 @@ export class SessionManager {
    * Create a new session with a PTY process
    */
   public createSession(cwd: string): Session | null {
-    // Validate the directory
-    if (!isDirectoryAllowed(cwd, this.config)) {
+    // Validate the directory by its real path, so symlinks cannot escape the allowed roots
+    const realCwd = resolveAllowedDirectory(cwd, this.config);
+    if (!realCwd) {
       logger.error(`Cannot create session: directory ${cwd} is not allowed`);
       return null;
     }
@@ -34,21 +77,28 @@ export class SessionManager {
       // Create a unique ID for the session
       const sessionId = uuidv4();
 
-      // Create a PTY process
-      const shell = process.platform === 'win32' ? 'powershell.exe' : 'bash';
-      // Convert process.env to the required format (string values only, no undefined)
-      const envVars: { [key: string]: string } = {};
-      Object.entries(process.env).forEach(([key, value]) => {
-        if (value !== undefined) {
-          envVars[key] = value;
-        }
-      });
+      // Create a PTY process with the environment allowed by the policy
+      const envVars = buildEnvironment(this.config);
+
+      // Sessions get the default resource limits; bash applies them and replaces itself
+      const ulimit = buildUlimitCommand(this.config.security.resourceLimits || {});
+      const shell = [SHELL, ...SHELL_ARGS].join(' ');
+      const startup = ulimit ? `${ulimit}; exec ${shell}` : `exec ${shell}`;
+      let file = SHELL;
+      let shellArgs = ulimit ? ['-c', startup] : SHELL_ARGS;
+
+      // In the sandbox the interactive shell is started by the sandbox backend
+      if (this.config.sandbox?.enabled) {
+        const sandbox = buildSandboxCommand(startup, realCwd, this.config);
+        file = sandbox.file;
+        shellArgs = sandbox.args;
+      }
 
-      const ptyProcess = pty.spawn(shell, [], {
+      const ptyProcess = pty.spawn(file, shellArgs, {
         name: 'xterm-color',
-        cols: 80,
-        rows: 30,
-        cwd,
+        cols: TERMINAL_COLUMNS,
+        rows: TERMINAL_ROWS,
+        cwd: realCwd,
         env: envVars,
       });
 
@@ -60,8 +110,12 @@ export class SessionManager {
         process: ptyProcess,
         cwd,
         isInteractive: true,
+        screen: createTerminalScreen(TERMINAL_COLUMNS, TERMINAL_ROWS),
       };
 
+      // Keep the virtual screen up to date with everything the session prints
+      ptyProcess.onData((data: string) => session.screen?.write(data));
+
       // Add the session to our map
       this.sessions.set(sessionId, session);
 
@@ -84,8 +138,20 @@ export class SessionManager {
 
   /**
    * Execute a command in an existing session
+   * At the shell prompt the command is wrapped in start and end markers, and the
+   * call resolves with its own output and exit code once the end marker appears, or
+   * after timeout milliseconds (security.commandTimeout by default) while the
+   * command keeps running. Otherwise the command goes to the foreground program as
+   * input, and output is collected for timeout milliseconds (1 second by default).
    */
-  public executeInSession(sessionId: string, command: string): Promise<ExecutionResult> {
+  public executeInSession(
+    sessionId: string,
+    command: string,
+    timeout?: number,
+    onOutput?: OutputListener,
+    signal?: AbortSignal,
+    compact?: boolean
+  ): Promise<ExecutionResult> {
     return new Promise((resolve) => {
       const session = this.sessions.get(sessionId);
 
@@ -102,36 +168,140 @@ export class SessionManager {
       // Update last activity
       session.lastActivity = new Date();
 
+      // Validate the input before the session receives it
+      const validation = this.validateSessionInput(session, command);
+      if (!validation.isValid) {
+        resolve({
+          success: false,
+          output: `Input validation failed: ${validation.reason}`,
+          error: validation.reason,
+          denied: true,
+          sessionId,
+          command,
+        });
+        return;
+      }
+
+      const markers = this.isAtPrompt(session) ? createCommandMarkers(command) : undefined;
+      const wait =
+        timeout ?? (markers ? this.config.security.commandTimeout * 1000 : DEFAULT_INPUT_WAIT);
+
       // Set up output collection
       let output = '';
-      
+      let streamed = 0;
+      const outputStream = createOutputStream(this.config, onOutput);
+
       // Add data listener and get the disposable
       const dataDisposable = session.process.onData((data: string) => {
         output += data;
+        if (!markers) {
+          outputStream.write(data, 'stdout');
+          return;
+        }
+
+        // Stream whole lines of the command's own output; the last line is held
+        // back until it is complete, since it may hold the start of the end marker
+        const marked = markers.scan(output);
+        if (marked.start === undefined) {
+          return;
+        }
+        const ready = marked.end ?? output.lastIndexOf('\n') + 1;
+        if (ready > Math.max(streamed, marked.start)) {
+          outputStream.write(output.substring(Math.max(streamed, marked.start), ready), 'stdout');
+          streamed = ready;
+        }
+        if (marked.end !== undefined) {
+          finish(false);
+        }
       });
 
       // Write the command to the PTY
-      session.process.write(`${command}\n`);
+      session.process.write(`${markers ? markers.line : command}\n`);
+
+      const timer = setTimeout(() => finish(false), wait);
+
+      const finish = (cancelled: boolean) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', cancel);
 
-      // For simplicity, we'll just collect output for a short time and then resolve
-      // In a real implementation, you'd need a more sophisticated approach to detect when
-      // the command has completed or is waiting for input
-      setTimeout(() => {
         // Dispose the data listener
         dataDisposable.dispose();
+        outputStream.flush();
+
+        if (!markers) {
+          resolve({
+            success: !cancelled,
+            ...this.sanitizeSessionOutput(output, command, compact),
+            ...(cancelled && { error: 'Command was cancelled', cancelled: true }),
+            sessionId,
+            command,
+            isInteractive: true,
+            waitingForInput: this.isWaitingForInput(output),
+          });
+          return;
+        }
+
+        // Without a start marker the shell never ran the command, e.g. because it
+        // was still busy with an earlier one
+        const { start, end, exitCode } = markers.scan(output);
+        const ownOutput =
+          start !== undefined ? output.substring(start, end).replace(/\r\n/g, '\n') : '';
+        const finished = exitCode !== undefined && !cancelled;
 
         resolve({
-          success: true,
-          output,
+          success: finished && exitCode === 0,
+          ...this.sanitizeSessionOutput(ownOutput, command, compact),
+          ...(finished && { exitCode }),
+          ...(finished &&
+            exitCode !== 0 && { error: `Command exited with code ${exitCode}` }),
+          ...(!finished &&
+            !cancelled && {
+              error: `Command did not finish within ${wait / 1000} seconds and is still running in the session`,
+              timedOut: true,
+            }),
+          ...(cancelled && { error: 'Command was cancelled', cancelled: true }),
           sessionId,
           command,
           isInteractive: true,
-          waitingForInput: this.isWaitingForInput(output), // This would need a proper implementation
+          waitingForInput: !finished && this.isWaitingForInput(output),
         });
-      }, 1000); // This timeout would need adjustment or a better approach
+      };
+
+      // Stop the command and the collection when the request is cancelled
+      const cancel = () => {
+        this.stopForeground(session);
+        logger.info(`Cancelled command "${command}" in session ${sessionId}`);
+        finish(true);
+      };
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener('abort', cancel, { once: true });
+      }
     });
   }
 
+  /**
+   * Get the rendered screen of a session, as a full-screen program has drawn it
+   * Secrets on the screen are redacted unless security.redactSecrets is false
+   */
+  public getScreen(sessionId: string, withStyles = false): ScreenSnapshot | undefined {
+    const screen = this.sessions.get(sessionId)?.screen;
+    if (!screen) {
+      return undefined;
+    }
+
+    const snapshot = screen.snapshot(withStyles);
+    if (this.config.security.redactSecrets !== false) {
+      const patterns = this.config.security.redactionPatterns;
+      snapshot.lines = redactScreenLines(snapshot.lines, snapshot.columns, patterns);
+      if (snapshot.title !== undefined) {
+        snapshot.title = redactSecrets(snapshot.title, patterns).text;
+      }
+    }
+    return snapshot;
+  }
+
   /**
    * Send input to an interactive session
    */
@@ -146,6 +316,13 @@ export class SessionManager {
     // Update last activity
     session.lastActivity = new Date();
 
+    // Validate the input before the session receives it
+    const validation = this.validateSessionInput(session, input);
+    if (!validation.isValid) {
+      logger.warn(`Input to session ${sessionId} rejected: ${validation.reason}`);
+      return false;
+    }
+
     // Write the input to the PTY
     session.process.write(`${input}\n`);
     logger.debug(`Sent input to session ${sessionId}`);
@@ -156,8 +333,35 @@ export class SessionManager {
   /**
    * Send input to an interactive session and collect the resulting output
    */
-  public collectOutputAfterInput(sessionId: string, input: string, timeout: number = 1000): Promise<ExecutionResult> {
+  public collectOutputAfterInput(
+    sessionId: string,
+    input: string,
+    timeout: number = DEFAULT_INPUT_WAIT,
+    onOutput?: OutputListener,
+    signal?: AbortSignal,
+    compact?: boolean
+  ): Promise<ExecutionResult> {
+    return this.waitForOutput(sessionId, input, { timeout }, onOutput, signal, compact);
+  }
+
+  /**
+   * Send optional input to a session, then wait until its output matches a pattern,
+   * has been idle for condition.idleTimeout milliseconds, or condition.timeout
+   * milliseconds have passed
+   * Patterns are tested, in order, against all output collected since the call
+   * started, with ANSI codes removed, so "$" matches the end of the output so far.
+   * The result tells which condition ended the wait and what matched.
+   */
+  public waitForOutput(
+    sessionId: string,
+    input: string | undefined,
+    condition: WaitCondition,
+    onOutput?: OutputListener,
+    signal?: AbortSignal,
+    compact?: boolean
+  ): Promise<ExecutionResult> {
     return new Promise((resolve) => {
+      const command = input ?? '';
       const session = this.sessions.get(sessionId);
 
       if (!session) {
@@ -165,45 +369,125 @@ export class SessionManager {
           success: false,
           output: '',
           error: `Session ${sessionId} not found`,
-          command: input,
+          command,
         });
         return;
       }
 
+      let patterns: OutputPattern[];
+      try {
+        patterns = compilePatterns(condition);
+      } catch (error) {
+        const reason = `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+        resolve({ success: false, output: '', error: reason, sessionId, command });
+        return;
+      }
+
       // Update last activity
       session.lastActivity = new Date();
 
+      // Validate the input before the session receives it
+      if (input !== undefined) {
+        const validation = this.validateSessionInput(session, input);
+        if (!validation.isValid) {
+          resolve({
+            success: false,
+            output: `Input validation failed: ${validation.reason}`,
+            error: validation.reason,
+            denied: true,
+            sessionId,
+            command,
+          });
+          return;
+        }
+      }
+
       // Set up output collection
       let output = '';
-      
-      // Add data listener and get the disposable
-      const dataDisposable = session.process.onData((data: string) => {
-        output += data;
-      });
-
-      // Write the input to the PTY
-      session.process.write(`${input}\n`);
+      let finished = false;
+      let dataDisposable: pty.IDisposable | undefined;
+      let timer: NodeJS.Timeout | undefined;
+      let idleTimer: NodeJS.Timeout | undefined;
+      const outputStream = createOutputStream(this.config, onOutput);
+
+      const finish = (endedBy: ExecutionResult['waitEndedBy'] | 'cancelled', match?: OutputMatch) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearTimeout(timer);
+        clearTimeout(idleTimer);
+        signal?.removeEventListener('abort', cancel);
 
-      // For simplicity, we'll collect output for a set time and then resolve
-      // A more sophisticated approach would detect when output has stabilized
-      setTimeout(() => {
         // Dispose the data listener
-        dataDisposable.dispose();
+        dataDisposable?.dispose();
+        outputStream.flush();
 
+        const cancelled = endedBy === 'cancelled';
         resolve({
-          success: true,
-          output,
+          success: !cancelled,
+          ...this.sanitizeSessionOutput(output, command, compact),
+          ...(cancelled
+            ? { error: `${input !== undefined ? 'Input' : 'Wait'} was cancelled`, cancelled: true }
+            : { waitEndedBy: endedBy }),
+          ...(match && { match }),
           sessionId,
-          command: input,
+          command,
           isInteractive: true,
           waitingForInput: this.isWaitingForInput(output),
         });
-      }, timeout);
+      };
+
+      const resetIdleTimer = () => {
+        if (condition.idleTimeout !== undefined) {
+          clearTimeout(idleTimer);
+          idleTimer = setTimeout(() => finish('idle'), condition.idleTimeout);
+        }
+      };
+
+      // Add data listener and get the disposable
+      dataDisposable = session.process.onData((data: string) => {
+        output += data;
+        outputStream.write(data, 'stdout');
+
+        const match = matchPatterns(patterns, output, input);
+        if (match) {
+          finish('match', match);
+        } else {
+          resetIdleTimer();
+        }
+      });
+      if (finished) {
+        dataDisposable.dispose();
+        return;
+      }
+
+      // Write the input to the PTY
+      if (input !== undefined) {
+        session.process.write(`${input}\n`);
+      }
+
+      timer = setTimeout(() => finish('timeout'), condition.timeout ?? DEFAULT_INPUT_WAIT);
+      resetIdleTimer();
+
+      // Stop the foreground program and the collection when the request is cancelled
+      const cancel = () => {
+        this.stopForeground(session);
+        logger.info(`Cancelled ${input !== undefined ? 'input to' : 'wait for'} session ${sessionId}`);
+        finish('cancelled');
+      };
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener('abort', cancel, { once: true });
+      }
     });
   }
 
   /**
    * Close a session
+   * The shell leads its own session, so programs it left running in the background
+   * are stopped as well: SIGTERM, then SIGKILL after security.killGracePeriod seconds
    */
   public closeSession(sessionId: string): boolean {
     const session = this.sessions.get(sessionId);
@@ -214,7 +498,19 @@ export class SessionManager {
     }
 
     try {
-      // Kill the PTY process
+      // Kill the PTY process, then anything still running in its session once it has exited
+      const pid = session.process.pid;
+      if (pid && process.platform !== 'win32') {
+        const grace = this.config.security.killGracePeriod ?? DEFAULT_KILL_GRACE_PERIOD;
+        const exitDisposable = session.process.onExit(() => {
+          exitDisposable.dispose();
+          terminateProcesses('session', pid, grace).then((left) => {
+            if (left > 0) {
+              logger.warn(`Stopped ${left} process(es) left running in session ${sessionId}`);
+            }
+          });
+        });
+      }
       session.process.kill();
 
       // Remove the session from our map
@@ -230,6 +526,23 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Stop the program in the foreground of a session's terminal, with everything it started
+   * The shell itself keeps running; when it is in the foreground, the current line is
+   * interrupted instead
+   */
+  private stopForeground(session: Session): void {
+    const pid = session.process.pid;
+    const group = pid && process.platform !== 'win32' ? getForegroundGroup(pid) : undefined;
+
+    if (group && group !== this.getShellPid(session)) {
+      const grace = this.config.security.killGracePeriod ?? DEFAULT_KILL_GRACE_PERIOD;
+      terminateProcesses('group', group, grace);
+    } else {
+      session.process.write('\x03');
+    }
+  }
+
   /**
    * List all active sessions
    */
@@ -274,6 +587,89 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Sanitize output collected from a session and redact secrets, compacting it
+   * when asked to or when compaction is enabled
+   */
+  private sanitizeSessionOutput(
+    output: string,
+    command: string,
+    compact?: boolean
+  ): Pick<
+    ExecutionResult,
+    'output' | 'redactions' | 'truncated' | 'outputHandle' | 'compaction'
+  > {
+    const { output: sanitized, redactions, truncated, outputHandle, compaction } =
+      sanitizeOutputWithReport(
+        output,
+        this.config,
+        (full) => this.outputStore?.save(full, command),
+        getCompaction(this.config, compact)
+      );
+    return {
+      output: sanitized,
+      ...(Object.keys(redactions).length > 0 && { redactions }),
+      ...(truncated && { truncated }),
+      ...(outputHandle && { outputHandle }),
+      ...(compaction && { compaction }),
+    };
+  }
+
+  /**
+   * Validate input for a session
+   * At the shell prompt the input is a command line and gets the same checks as
+   * stateless commands; otherwise it goes to the running program and is checked
+   * against the interactive input policy
+   */
+  private validateSessionInput(
+    session: Session,
+    input: string
+  ): { isValid: boolean; reason?: string } {
+    if (this.isAtPrompt(session)) {
+      // Path arguments are resolved against the shell's directory, so it must still be allowed
+      const cwd = this.getSessionCwd(session);
+      if (!resolveAllowedDirectory(cwd, this.config)) {
+        return {
+          isValid: false,
+          reason: `Session directory ${cwd} is outside the allowed directories`,
+        };
+      }
+      return validateCommand(input, this.config, cwd);
+    }
+
+    return validateInteractiveInput(input, this.config);
+  }
+
+  /**
+   * Whether the shell itself is the foreground process of the session's terminal
+   */
+  public isAtPrompt(session: Session): boolean {
+    const foreground = session.process.process;
+    return !foreground || path.basename(foreground) === SHELL;
+  }
+
+  /**
+   * Current working directory of the session's shell
+   * Read from /proc where available, since commands like "cd" move it
+   */
+  public getSessionCwd(session: Session): string {
+    try {
+      return fs.readlinkSync(`/proc/${this.getShellPid(session)}/cwd`);
+    } catch {
+      return session.cwd;
+    }
+  }
+
+  /**
+   * Process ID of the session's shell
+   * In the sandbox the terminal's process is the bwrap or unshare wrapper, and the
+   * shell runs below it
+   */
+  private getShellPid(session: Session): number | undefined {
+    const pid = session.process.pid;
+    return this.config.sandbox?.enabled && pid ? findGroupLeader(pid) : pid;
+  }
+
   /**
    * Heuristic to determine if a process is waiting for input
    * Uses common prompt patterns to detect when a shell is waiting for user input
@@ -320,3 +716,84 @@ export class SessionManager {
     // logger.info('Session manager shut down');
   }
 }
+
+interface OutputPattern {
+  regex: RegExp;
+  source: string;
+  literal: boolean;
+}
+
+/**
+ * Compile the patterns and literal strings of a wait condition, patterns first
+ * Throws if a pattern is not a valid regular expression
+ */
+function compilePatterns(condition: WaitCondition): OutputPattern[] {
+  return [
+    ...(condition.patterns ?? []).map((source) => ({
+      regex: new RegExp(source),
+      source,
+      literal: false,
+    })),
+    ...(condition.literals ?? []).map((source) => ({
+      regex: new RegExp(source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')),
+      source,
+      literal: true,
+    })),
+  ];
+}
+
+/**
+ * Find the first pattern that matches session output, with ANSI codes removed
+ * The terminal's echo of the input is skipped, so that a pattern found in the
+ * input itself does not end the wait before the program has answered
+ */
+function matchPatterns(
+  patterns: OutputPattern[],
+  output: string,
+  input?: string
+): OutputMatch | undefined {
+  if (patterns.length === 0) {
+    return undefined;
+  }
+
+  let text = stripAnsi(output).replace(/\r\n/g, '\n');
+  const echo = input?.split('\n')[0];
+  if (echo) {
+    if (echo.startsWith(text)) {
+      return undefined;
+    }
+    if (text.startsWith(echo)) {
+      text = text.substring(echo.length);
+    }
+  }
+
+  for (const pattern of patterns) {
+    const match = pattern.regex.exec(text);
+    if (match) {
+      return { pattern: pattern.source, literal: pattern.literal, text: match[0] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Redact the rows of a screen as one text, so secrets spread over several rows match
+ * Rows that fill every column are taken to wrap onto the next row. The redacted text
+ * is split back into rows of at most `columns` characters, padded to the row count.
+ */
+function redactScreenLines(lines: string[], columns: number, patterns?: string[]): string[] {
+  const text = lines
+    .map((line, i) => (i < lines.length - 1 && line.length < columns ? `${line}\n` : line))
+    .join('');
+
+  const redacted: string[] = [];
+  for (const line of redactSecrets(text, patterns).text.split('\n')) {
+    for (let start = 0; start === 0 || start < line.length; start += columns) {
+      redacted.push(line.substring(start, start + columns));
+    }
+  }
+  while (redacted.length < lines.length) {
+    redacted.push('');
+  }
+  return redacted;
+}
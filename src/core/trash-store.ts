@@ -0,0 +1,217 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MCPConfig, TrashItem } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { getDestructiveTargets, resolveAllowedDirectory } from '../utils/validator.js';
+
+export class TrashStore {
+  private config: MCPConfig;
+  private items: TrashItem[] = [];
+
+  constructor(config: MCPConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Save copies of the files a command is about to delete or overwrite
+   * Returns the items that were saved. Items larger than trash.maxSize, and
+   * files inside the trash directory itself, are not saved.
+   */
+  public async save(command: string, cwd: string): Promise<TrashItem[]> {
+    const trash = this.config.trash;
+    if (!trash?.enabled) {
+      return [];
+    }
+
+    const trashDir = path.resolve(trash.directory);
+    const targets = getDestructiveTargets(command, cwd).filter(
+      (target) => path.relative(trashDir, target.path).startsWith('..')
+    );
+    if (targets.length === 0) {
+      return [];
+    }
+
+    this.load();
+    const saved: TrashItem[] = [];
+
+    for (const target of targets) {
+      try {
+        const size = await getSize(target.path, trash.maxSize);
+        if (trash.maxSize !== undefined && size > trash.maxSize) {
+          logger.warn(`Not saving ${target.path} to the trash: larger than ${trash.maxSize} bytes`);
+          continue;
+        }
+
+        const item: TrashItem = {
+          id: uuidv4(),
+          originalPath: target.path,
+          reason: target.reason,
+          command,
+          trashedAt: new Date().toISOString(),
+          size,
+        };
+        await fs.copy(target.path, this.getItemPath(item.id), { preserveTimestamps: true });
+
+        this.items.push(item);
+        saved.push(item);
+        logger.info(`Saved ${target.path} to the trash (${item.id}) before "${command}"`);
+      } catch (error) {
+        logger.error(
+          `Failed to save ${target.path} to the trash: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    this.prune();
+    this.persist();
+    return saved.filter((item) => this.items.includes(item));
+  }
+
+  /**
+   * List the items in the trash, newest first
+   */
+  public list(): TrashItem[] {
+    this.load();
+    if (this.prune()) {
+      this.persist();
+    }
+    return [...this.items].reverse();
+  }
+
+  /**
+   * Move an item back to its original path and remove it from the trash
+   * Fails if something exists at that path, unless overwrite is set, or if the
+   * parent directory is not writable.
+   */
+  public async restore(id: string, overwrite = false): Promise<TrashItem> {
+    this.load();
+
+    const item = this.items.find((i) => i.id === id);
+    if (!item) {
+      throw new Error(`Trash item ${id} not found`);
+    }
+
+    const parent = path.dirname(item.originalPath);
+    if (!resolveAllowedDirectory(parent, this.config, 'write')) {
+      throw new Error(`Cannot restore to ${item.originalPath}: directory is not writable`);
+    }
+
+    if (!overwrite && (await pathExistsNoFollow(item.originalPath))) {
+      throw new Error(`Cannot restore to ${item.originalPath}: path already exists`);
+    }
+
+    await fs.ensureDir(parent);
+    await fs.move(this.getItemPath(id), item.originalPath, { overwrite });
+
+    this.items = this.items.filter((i) => i !== item);
+    this.persist();
+
+    logger.info(`Restored ${item.originalPath} from the trash (${id})`);
+    return item;
+  }
+
+  /**
+   * Remove expired items, then the oldest items until the count and total size
+   * are within the retention limits
+   * Returns true if anything was removed
+   */
+  private prune(): boolean {
+    const trash = this.config.trash;
+    if (!trash) {
+      return false;
+    }
+
+    const now = Date.now();
+    const kept = this.items.filter(
+      (item) => !trash.maxAge || now - new Date(item.trashedAt).getTime() <= trash.maxAge * 1000
+    );
+
+    let totalSize = kept.reduce((sum, item) => sum + item.size, 0);
+    while (
+      kept.length > 0 &&
+      ((trash.maxItems !== undefined && kept.length > trash.maxItems) ||
+        (trash.maxSize !== undefined && totalSize > trash.maxSize))
+    ) {
+      totalSize -= kept.shift()!.size;
+    }
+
+    const removed = this.items.filter((item) => !kept.includes(item));
+    for (const item of removed) {
+      fs.removeSync(this.getItemPath(item.id));
+      logger.info(`Removed ${item.originalPath} (${item.id}) from the trash`);
+    }
+
+    this.items = kept;
+    return removed.length > 0;
+  }
+
+  /**
+   * Reload the trash index, which may be shared with other server instances
+   */
+  private load(): void {
+    const indexFile = this.getIndexFile();
+    try {
+      this.items = fs.pathExistsSync(indexFile) ? (fs.readJsonSync(indexFile) as TrashItem[]) : [];
+    } catch (error) {
+      logger.error(
+        `Failed to read trash index: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Write the trash index
+   */
+  private persist(): void {
+    const indexFile = this.getIndexFile();
+    try {
+      fs.ensureDirSync(path.dirname(indexFile));
+      fs.writeJsonSync(indexFile, this.items, { spaces: 2 });
+    } catch (error) {
+      logger.error(
+        `Failed to write trash index: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private getIndexFile(): string {
+    return path.join(this.config.trash?.directory || '', 'index.json');
+  }
+
+  private getItemPath(id: string): string {
+    return path.join(this.config.trash?.directory || '', 'items', id);
+  }
+}
+
+/**
+ * Total size of a file or directory tree in bytes, without following symlinks
+ * Stops counting once the size passes the limit
+ */
+async function getSize(target: string, limit = Infinity): Promise<number> {
+  const stats = await fs.lstat(target);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+
+  let size = 0;
+  for (const entry of await fs.readdir(target)) {
+    size += await getSize(path.join(target, entry), limit - size);
+    if (size > limit) {
+      break;
+    }
+  }
+  return size;
+}
+
+/**
+ * Check whether a path exists, counting dangling symlinks
+ */
+async function pathExistsNoFollow(target: string): Promise<boolean> {
+  try {
+    await fs.lstat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
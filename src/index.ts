@@ -5,7 +5,14 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { BashMCP } from './core/bash-mcp.js';
 import { loadConfig } from './utils/config.js';
 import { createLogger, logger } from './utils/logger.js';
-import { ExecutionOptions, SessionInput, ExecutionResult } from './types/index.js';
+import {
+  ExecutionOptions,
+  SessionInput,
+  ExecutionResult,
+  JobInfo,
+  OutputPage,
+  OutputListener,
+} from './types/index.js';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import readline from 'readline';
@@ -14,6 +21,10 @@ import readline from 'readline';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// The interactive REPL shows output once a prompt ends it, or once it has been idle
+const REPL_PROMPT_PATTERN = '[$#>] $';
+const REPL_IDLE_TIMEOUT = 5000;
+
 // Define schemas for the tools API
 const ToolsListRequestSchema = z.object({
   method: z.literal('tools/list'),
@@ -26,6 +37,10 @@ const ToolCallRequestSchema = z.object({
   params: z.object({
     name: z.string(),
     arguments: z.record(z.any()).optional(),
+    _meta: z
+      .object({ progressToken: z.union([z.string(), z.number()]).optional() })
+      .passthrough()
+      .optional(),
   }),
 });
 
@@ -151,13 +166,20 @@ export async function startInteractiveSession(cwd: string = process.cwd()) {
           throw new Error('Session ID not available');
         }
         
-        const response = await mcp.sendInput({ sessionId, input, timeout: timeoutMs });
+        // Wait for the shell's prompt, or a program's, rather than the whole timeout
+        const response = await mcp.waitForOutput({
+          sessionId,
+          input,
+          patterns: [REPL_PROMPT_PATTERN],
+          idleTimeout: REPL_IDLE_TIMEOUT,
+          timeout: timeoutMs,
+        });
         
         // Display the output
         console.log(response.output);
         
-        // Indicate if the session is waiting for input
-        if (response.waitingForInput) {
+        // Indicate if the session is waiting for input without showing a prompt
+        if (response.success && response.waitEndedBy !== 'match') {
           console.log('(Waiting for input...)');
         }
       } catch (error) {
@@ -191,6 +213,90 @@ export async function startInteractiveSession(cwd: string = process.cwd()) {
   }
 }
 
+/**
+ * Stream command output to the client that asked for progress on a tool call
+ * Each chunk is sent as a progress notification (with the number of characters so
+ * far as the progress value and the chunk as its message) and as a log message
+ * carrying the same progress token. Returns undefined when no token was given.
+ */
+function createProgressListener(
+  server: Server,
+  progressToken: string | number | undefined
+): OutputListener | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let progress = 0;
+  return (chunk, stream) => {
+    progress += chunk.length;
+    const report = (error: unknown) =>
+      logger.debug(`Failed to stream output: ${error instanceof Error ? error.message : String(error)}`);
+
+    server
+      .notification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message: chunk },
+      })
+      .catch(report);
+    server
+      .sendLoggingMessage({
+        level: 'info',
+        logger: 'bash-mcp',
+        data: { progressToken, stream, output: chunk },
+      })
+      .catch(report);
+  };
+}
+
+/**
+ * Describe a background job for a tool response
+ */
+function formatJob(job: JobInfo): string {
+  const lines = [
+    `ID: ${job.id}`,
+    `Command: ${job.command}`,
+    `Directory: ${job.cwd}`,
+    `Status: ${job.status}`,
+  ];
+  if (job.exitCode !== undefined) {
+    lines.push(`Exit code: ${job.exitCode}`);
+  }
+  if (job.signal) {
+    lines.push(`Signal: ${job.signal}`);
+  }
+  if (job.error) {
+    lines.push(`Error: ${job.error}`);
+  }
+  lines.push(`Started: ${job.startedAt}`);
+  if (job.finishedAt) {
+    lines.push(`Finished: ${job.finishedAt}`);
+  }
+  lines.push(`Output: ${job.outputSize} characters`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Format part of a stored output, followed by a note on what was read
+ */
+function formatOutputPage(page: OutputPage): string {
+  let note: string;
+  if (page.matches !== undefined) {
+    note =
+      `[${page.matches} matching line${page.matches === 1 ? '' : 's'} of ${page.totalLines}` +
+      `${page.truncated ? '; not all matches fit in this response' : ''}]`;
+  } else if (page.startLine !== undefined && page.endLine !== undefined) {
+    note =
+      `[Lines ${page.startLine}-${page.endLine} of ${page.totalLines}` +
+      `${page.truncated ? `; continue from line ${page.endLine + 1}` : ''}]`;
+  } else {
+    note = `[Bytes ${page.offset}-${page.nextOffset} of ${page.totalBytes}, next offset: ${page.nextOffset}]`;
+  }
+
+  return `${page.output}\n${note}`;
+}
+
 /**
  * Start an MCP server that exposes the Bash MCP functionality
  */
@@ -213,6 +319,7 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
           tools: {
             listChanged: false,
           },
+          logging: {},
         },
       }
     );
@@ -232,6 +339,9 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
                 cwd: { type: 'string', description: 'Working directory for the command (must be in an allowed directory)' },
                 timeout: { type: 'number', description: 'Timeout in seconds (defaults to config setting)' },
                 sessionId: { type: 'string', description: 'Session ID for stateful commands (if omitted, a stateless command is executed)' },
+                stdin: { type: 'string', description: 'Input written to the command\'s stdin, which is then closed (stateless commands only)' },
+                stdinEncoding: { type: 'string', enum: ['text', 'base64'], description: 'Encoding of stdin (default: text)' },
+                compact: { type: 'boolean', description: 'Compact the output: strip ANSI codes, collapse progress lines, fold repeated lines and fit a token budget (defaults to config setting)' },
               },
               required: ['command'],
             },
@@ -256,10 +366,28 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
                 sessionId: { type: 'string', description: 'Session ID of the interactive session' },
                 input: { type: 'string', description: 'The input to send to the session' },
                 timeout: { type: 'number', description: 'Timeout in seconds for output collection (defaults to config setting)' },
+                compact: { type: 'boolean', description: 'Compact the output like execute_command does (defaults to config setting)' },
               },
               required: ['sessionId', 'input'],
             },
           },
+          {
+            name: 'wait_for_output',
+            description: 'Send optional input to an interactive bash session, then wait until its output matches a pattern, goes idle or the timeout passes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: { type: 'string', description: 'Session ID of the interactive session' },
+                input: { type: 'string', description: 'Input to send before waiting (if omitted, only new output is awaited)' },
+                patterns: { type: 'array', items: { type: 'string' }, description: 'Regular expressions tested against the output so far; "$" matches its end' },
+                literals: { type: 'array', items: { type: 'string' }, description: 'Literal strings tested after the patterns' },
+                idleTimeout: { type: 'number', description: 'Stop waiting once there has been no output for this many seconds' },
+                timeout: { type: 'number', description: 'Seconds to wait at most (defaults to config setting)' },
+                compact: { type: 'boolean', description: 'Compact the output like execute_command does (defaults to config setting)' },
+              },
+              required: ['sessionId'],
+            },
+          },
           {
             name: 'close_session',
             description: 'Close an interactive bash session',
@@ -279,16 +407,173 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
               properties: {},
             },
           },
+          {
+            name: 'get_screen',
+            description: 'Get the rendered terminal screen of an interactive bash session, for full-screen programs such as vim, less or top',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: { type: 'string', description: 'Session ID of the interactive session' },
+                attributes: { type: 'boolean', description: 'Include runs of text drawn with attributes such as bold, inverse or colours (default: false)' },
+              },
+              required: ['sessionId'],
+            },
+          },
+          {
+            name: 'list_pending_commands',
+            description: 'List commands waiting for human approval',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          // The agent whose command is held could approve it itself, so this is opt-in
+          ...(config.approval?.toolApproval
+            ? [
+                {
+                  name: 'approve_command',
+                  description: 'Approve a pending command so that it can be executed',
+                  inputSchema: {
+                    type: 'object',
+                    properties: {
+                      pendingId: { type: 'string', description: 'ID of the pending command' },
+                      duration: { type: 'number', description: 'Seconds the approval stays valid (if omitted, the approval covers the next run only)' },
+                    },
+                    required: ['pendingId'],
+                  },
+                },
+              ]
+            : []),
+          {
+            name: 'reject_command',
+            description: 'Reject a pending command',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                pendingId: { type: 'string', description: 'ID of the pending command' },
+                reason: { type: 'string', description: 'Reason for the rejection, recorded in the logs' },
+              },
+              required: ['pendingId'],
+            },
+          },
+          {
+            name: 'list_trash',
+            description: 'List files saved to the trash before commands deleted or overwrote them',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'restore',
+            description: 'Restore a file or directory from the trash to its original path',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                trashId: { type: 'string', description: 'ID of the trash item' },
+                overwrite: { type: 'boolean', description: 'Replace whatever is at the original path now (default: false)' },
+              },
+              required: ['trashId'],
+            },
+          },
+          {
+            name: 'start_job',
+            description: 'Start a long-running command in the background and return its job ID',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                command: { type: 'string', description: 'The bash command to run' },
+                cwd: { type: 'string', description: 'Working directory for the command' },
+              },
+              required: ['command', 'cwd'],
+            },
+          },
+          {
+            name: 'job_status',
+            description: 'Get the status of a background job',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'ID of the job' },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'read_job_output',
+            description: 'Read the output of a background job from a character offset',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'ID of the job' },
+                offset: { type: 'number', description: 'Character offset to read from (default: 0); use nextOffset from the previous read to get new output' },
+                limit: { type: 'number', description: 'Maximum number of characters to return' },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'wait_job',
+            description: 'Wait for a background job to finish, up to a bounded timeout',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'ID of the job' },
+                timeout: { type: 'number', description: 'Seconds to wait (capped by the server)' },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'kill_job',
+            description: 'Send a signal to a background job',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'ID of the job' },
+                signal: {
+                  type: 'string',
+                  description: 'Signal name to send, such as SIGINT or SIGUSR1 (default: SIGTERM, then SIGKILL after a grace period)',
+                },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'list_jobs',
+            description: 'List background jobs',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'read_output',
+            description: 'Read a byte range, a line range or the lines matching a pattern from the full output of a command whose output was cut',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                handle: { type: 'string', description: 'Output handle given in the command result' },
+                offset: { type: 'number', description: 'Byte offset to read from (default: 0)' },
+                length: { type: 'number', description: 'Number of bytes to read (capped by the server)' },
+                startLine: { type: 'number', description: 'First line to read, counting from 1' },
+                endLine: { type: 'number', description: 'Last line to read, inclusive' },
+                pattern: { type: 'string', description: 'Regular expression; returns the matching lines with their line numbers' },
+              },
+              required: ['handle'],
+            },
+          },
         ],
       };
     });
 
     // Register the tools/call handler for executing tools
-    server.setRequestHandler(ToolCallRequestSchema, async (request) => {
+    server.setRequestHandler(ToolCallRequestSchema, async (request, extra) => {
       // logger.info(`Handling tools/call request for: ${request.params.name}`);
       
       const toolName = request.params.name;
       const args = request.params.arguments || {};
+      const onOutput = createProgressListener(server, request.params._meta?.progressToken);
 
       // Handle execute_command
       if (toolName === 'execute_command') {
@@ -298,14 +583,26 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
           const result = await bashMcp.executeCommand(args.command, { 
             cwd: args.cwd, 
             timeout: args.timeout, 
-            sessionId: args.sessionId 
+            sessionId: args.sessionId,
+            stdin: args.stdin,
+            stdinEncoding: args.stdinEncoding,
+            compact: args.compact,
+            onOutput,
+            signal: extra.signal,
           });
 
+          // The result without the combined output, which the text block already holds
+          const { output, ...structured } = result;
+
           return {
             content: [
               {
                 type: 'text',
-                text: result.output,
+                text: output,
+              },
+              {
+                type: 'text',
+                text: JSON.stringify(structured, null, 2),
               },
             ],
             isError: !result.success,
@@ -376,7 +673,10 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
           const result = await bashMcp.sendInput({ 
             sessionId: args.sessionId, 
             input: args.input,
-            timeout: timeoutMs
+            timeout: timeoutMs,
+            compact: args.compact,
+            onOutput,
+            signal: extra.signal,
           });
 
           return {
@@ -385,6 +685,9 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
                 type: 'text',
                 text: result.output,
               },
+              ...(result.compaction
+                ? [{ type: 'text', text: JSON.stringify({ compaction: result.compaction }, null, 2) }]
+                : []),
             ],
             isError: !result.success,
           };
@@ -402,6 +705,51 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
         }
       }
       
+      // Handle wait_for_output
+      else if (toolName === 'wait_for_output') {
+        try {
+          const result = await bashMcp.waitForOutput({
+            sessionId: args.sessionId,
+            input: args.input,
+            patterns: args.patterns,
+            literals: args.literals,
+            idleTimeout: args.idleTimeout !== undefined ? args.idleTimeout * 1000 : undefined,
+            timeout: args.timeout ? args.timeout * 1000 : undefined,
+            compact: args.compact,
+            onOutput,
+            signal: extra.signal,
+          });
+
+          // The result without the output, which the text block already holds
+          const { output, ...structured } = result;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: output,
+              },
+              {
+                type: 'text',
+                text: JSON.stringify(structured, null, 2),
+              },
+            ],
+            isError: !result.success,
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error waiting for output: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+      
       // Handle close_session
       else if (toolName === 'close_session') {
         try {
@@ -487,60 +835,581 @@ export async function startMcpServer(configPath: string = path.join(__dirname, '
         }
       }
       
-      // Unknown tool
-      else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Unknown tool: ${toolName}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    });
+      // Handle get_screen
+      else if (toolName === 'get_screen') {
+        try {
+          const result = bashMcp.getScreen(args.sessionId, args.attributes === true);
 
-    // Connect the server using stdio transport
-    const transport = new StdioServerTransport();
-    
-    // Set up cleanup on exit
-    process.on('SIGINT', () => {
-      // logger.info('Shutting down MCP server');
-      bashMcp.shutdown();
-      process.exit(0);
-    });
+          if (!result.success || !result.screen) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to get screen: ${result.error || 'Unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
 
-    process.on('SIGTERM', () => {
-      // logger.info('Shutting down MCP server');
-      bashMcp.shutdown();
-      process.exit(0);
-    });
+          // The screen's rows, then everything else about it
+          const { lines, ...details } = result.screen;
 
-    // Start the server
-    await server.connect(transport);
-    // logger.info('MCP server running');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: lines.join('\n'),
+              },
+              {
+                type: 'text',
+                text: JSON.stringify(details, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error getting screen: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+      
+      // Handle list_pending_commands
+      else if (toolName === 'list_pending_commands') {
+        try {
+          const pending = bashMcp.listPendingCommands();
 
-  } catch (error) {
-    logger.error(`Failed to start MCP server: ${error instanceof Error ? error.message : String(error)}`);
-    process.exit(1);
-  }
-}
+          if (pending.length === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'No pending commands',
+                },
+              ],
+            };
+          }
 
-// Command-line interface
-// In ES modules, we can check if this file is being run directly using import.meta.url
-const isMainModule = import.meta.url === `file://${process.argv[1]}`;
-if (isMainModule) {
-  const args = process.argv.slice(2);
-  
-  // Check if we should run in MCP server mode
-  if (args.length > 0 && args[0] === '--mcp-server') {
-    // Start the MCP server
-    startMcpServer().catch((error) => {
-      console.error('Fatal error:', error);
-      process.exit(1);
-    });
-  } 
+          const pendingList = pending.map((p) =>
+            `ID: ${p.id}\nCommand: ${p.command}\nDirectory: ${p.cwd}\nRule: ${p.rule}\nRequested: ${p.requestedAt}`
+          ).join('\n\n');
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Pending commands:\n\n${pendingList}`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error listing pending commands: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle approve_command
+      else if (toolName === 'approve_command') {
+        if (!config.approval?.toolApproval) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Commands can only be approved with the CLI (--approve) unless approval.toolApproval is enabled',
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        try {
+          const result = bashMcp.approveCommand(args.pendingId, args.duration);
+
+          if (!result.success) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to approve command: ${result.error || 'unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: result.grant?.expiresAt
+                  ? `Command approved until ${result.grant.expiresAt}: ${result.grant.command}`
+                  : `Command approved for one run: ${result.grant?.command}`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error approving command: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle reject_command
+      else if (toolName === 'reject_command') {
+        try {
+          const result = bashMcp.rejectCommand(args.pendingId, args.reason);
+
+          if (!result.success) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to reject command: ${result.error || 'unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Pending command ${args.pendingId} rejected`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error rejecting command: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle list_trash
+      else if (toolName === 'list_trash') {
+        try {
+          const items = bashMcp.listTrash();
+
+          if (items.length === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Trash is empty',
+                },
+              ],
+            };
+          }
+
+          const itemList = items.map((item) =>
+            `ID: ${item.id}\nPath: ${item.originalPath}\nReason: ${item.reason}\nCommand: ${item.command}\nSize: ${item.size} bytes\nTrashed: ${item.trashedAt}`
+          ).join('\n\n');
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Trash items:\n\n${itemList}`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error listing trash: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle restore
+      else if (toolName === 'restore') {
+        try {
+          const result = await bashMcp.restoreFromTrash(args.trashId, args.overwrite === true);
+
+          if (!result.success || !result.item) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to restore: ${result.error || 'unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Restored ${result.item.originalPath}`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error restoring: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle start_job
+      else if (toolName === 'start_job') {
+        try {
+          const result = await bashMcp.startJob(args.command, { cwd: args.cwd });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: result.output,
+              },
+            ],
+            isError: !result.success,
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error starting job: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle job_status, wait_job and kill_job, which all report the job's state
+      else if (toolName === 'job_status' || toolName === 'wait_job' || toolName === 'kill_job') {
+        try {
+          const result =
+            toolName === 'wait_job'
+              ? await bashMcp.waitJob(args.jobId, args.timeout)
+              : toolName === 'kill_job'
+                ? bashMcp.killJob(args.jobId, args.signal)
+                : bashMcp.getJob(args.jobId);
+
+          if (!result.success || !result.job) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to get job: ${result.error || 'unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJob(result.job),
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error getting job: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle read_job_output
+      else if (toolName === 'read_job_output') {
+        try {
+          const result = bashMcp.readJobOutput(args.jobId, args.offset, args.limit);
+
+          if (!result.success || !result.output) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to read job output: ${result.error || 'unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const { output } = result;
+          const notes = [
+            `[Offset ${output.offset}-${output.nextOffset}, next offset: ${output.nextOffset}` +
+              `${output.running ? ', job still running' : ''}]`,
+          ];
+          if (output.skipped > 0) {
+            notes.unshift(`[${output.skipped} characters before offset ${output.offset} are no longer kept]`);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${output.output}\n${notes.join('\n')}`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error reading job output: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle list_jobs
+      else if (toolName === 'list_jobs') {
+        try {
+          const jobs = bashMcp.listJobs();
+
+          if (jobs.length === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'No jobs',
+                },
+              ],
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Jobs:\n\n${jobs.map(formatJob).join('\n\n')}`,
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error listing jobs: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Handle read_output
+      else if (toolName === 'read_output') {
+        try {
+          const result = bashMcp.readOutput(args.handle, {
+            offset: args.offset,
+            length: args.length,
+            startLine: args.startLine,
+            endLine: args.endLine,
+            pattern: args.pattern,
+          });
+
+          if (!result.success || !result.page) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Failed to read output: ${result.error || 'unknown error'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatOutputPage(result.page),
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`MCP tool error: ${error instanceof Error ? error.message : String(error)}`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error reading output: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      // Unknown tool
+      else {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Unknown tool: ${toolName}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+
+    // Connect the server using stdio transport
+    const transport = new StdioServerTransport();
+    
+    // Set up cleanup on exit
+    process.on('SIGINT', () => {
+      // logger.info('Shutting down MCP server');
+      bashMcp.shutdown();
+      process.exit(0);
+    });
+
+    process.on('SIGTERM', () => {
+      // logger.info('Shutting down MCP server');
+      bashMcp.shutdown();
+      process.exit(0);
+    });
+
+    // Start the server
+    await server.connect(transport);
+    // logger.info('MCP server running');
+
+  } catch (error) {
+    logger.error(`Failed to start MCP server: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Command-line interface
+// In ES modules, we can check if this file is being run directly using import.meta.url
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  const args = process.argv.slice(2);
+  
+  // Check if we should run in MCP server mode
+  if (args.length > 0 && args[0] === '--mcp-server') {
+    // Start the MCP server
+    startMcpServer().catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+  } 
+  // Approval workflow: list, approve or reject pending commands
+  // Decisions reach a running server through approval.stateFile
+  else if (args[0] === '--pending' || args[0] === '--approve' || args[0] === '--reject') {
+    const [action, pendingId] = args;
+    const optionValue = (name: string) => {
+      const index = args.indexOf(name);
+      return index !== -1 && args.length > index + 1 ? args[index + 1] : undefined;
+    };
+
+    initBashMCP()
+      .then((mcp) => {
+        try {
+          if (action === '--pending') {
+            console.log(JSON.stringify(mcp.listPendingCommands(), null, 2));
+            return true;
+          }
+
+          if (!pendingId) {
+            console.error(`Usage: bash-mcp ${action} <pending-id>`);
+            return false;
+          }
+
+          const duration = optionValue('--duration');
+          const result =
+            action === '--approve'
+              ? mcp.approveCommand(pendingId, duration ? parseInt(duration, 10) : undefined)
+              : mcp.rejectCommand(pendingId, optionValue('--reason'));
+          console.log(JSON.stringify(result, null, 2));
+          return result.success;
+        } finally {
+          mcp.shutdown();
+        }
+      })
+      .then((success) => process.exit(success ? 0 : 1))
+      .catch((error) => {
+        console.error('Error:', error);
+        process.exit(1);
+      });
+  }
+  // Verify the hash chain of the audit log
+  else if (args[0] === '--verify-audit') {
+    initBashMCP()
+      .then((mcp) => {
+        try {
+          const verification = mcp.verifyAuditLog(args[1]);
+          console.log(JSON.stringify(verification, null, 2));
+          return verification.valid;
+        } finally {
+          mcp.shutdown();
+        }
+      })
+      .then((valid) => process.exit(valid ? 0 : 1))
+      .catch((error) => {
+        console.error('Error:', error);
+        process.exit(1);
+      });
+  }
   // Check if we should run in interactive mode
   else if (args.includes('--interactive') || args.includes('-i')) {
     // Extract the working directory if specified
@@ -562,6 +1431,10 @@ if (isMainModule) {
       console.log('Usage: bash-mcp <command> [options]');
       console.log('       bash-mcp --mcp-server (to start MCP server mode)');
       console.log('       bash-mcp --interactive [--cwd <directory>] (to start interactive mode)');
+      console.log('       bash-mcp --pending (to list commands waiting for approval)');
+      console.log('       bash-mcp --approve <pending-id> [--duration <seconds>]');
+      console.log('       bash-mcp --reject <pending-id> [--reason <text>]');
+      console.log('       bash-mcp --verify-audit [<audit-file>] (to check the audit log hash chain)');
       process.exit(1);
     }
 
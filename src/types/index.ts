@@ -1,19 +1,128 @@
+/**
+ * Linux resource limits applied to executed commands with ulimit
+ */
+export interface ResourceLimits {
+  cpuTime?: number; // Seconds of CPU time per process
+  addressSpace?: number; // Megabytes of virtual memory per process
+  fileSize?: number; // Megabytes per file written
+  openFiles?: number; // Open file descriptors per process
+  processes?: number; // Processes for the user, counted across the whole system
+}
+
+/**
+ * Which environment variables reach commands and sessions
+ * Names may use * as a wildcard and are matched case-insensitively
+ */
+export interface EnvironmentPolicy {
+  passthrough?: string[]; // Variables copied from the server's environment; PATH, HOME, LANG, LC_*, TERM, USER and SHELL when unset
+  deniedPatterns?: string[]; // Variables never passed on; defaults to common secret names
+  overrides?: Record<string, string>; // Always set, replacing any other value
+}
+
+/**
+ * Linux namespace sandbox for commands and sessions
+ */
+export interface SandboxConfig {
+  enabled: boolean;
+  backend?: 'auto' | 'bwrap' | 'unshare'; // "auto" (the default) prefers bwrap
+  network?: boolean; // Defaults to false
+  readOnlyDirectories?: string[]; // allowedDirectories mounted read-only
+  systemPaths?: string[]; // Mounted read-only so that programs can run
+}
+
+/**
+ * Argument and flag restrictions for an allowed command
+ */
+export interface CommandPolicy {
+  command: string;
+  allowedFlags?: string[]; // If set, only these flags may be used
+  deniedFlags?: string[];
+  argumentPatterns?: string[]; // Every operand must fully match one of these regexes
+  maxArguments?: number;
+  deniedSubcommands?: string[]; // Subcommands (first operands) that may not be run, e.g. "push" for git
+  pathArguments?: 'auto' | 'all' | 'none' | number[]; // Operands (1-based) confined to allowedDirectories
+  writeArguments?: 'all' | 'last' | 'none' | number[]; // Operands (1-based) the command modifies
+  resourceProfile?: string; // Name of an entry in resourceProfiles
+  resourceLimits?: ResourceLimits; // Limits for this command, on top of the profile
+}
+
+/**
+ * An entry in allowedCommands: a bare command name or a command with a policy
+ */
+export type AllowedCommand = string | CommandPolicy;
+
+/**
+ * Access tiers for allowed directories, from least to most privileged
+ * read: working directory and path arguments; write: also modified by commands and
+ * output redirections; exec: also programs stored there may be run by path
+ */
+export type DirectoryAccess = 'read' | 'write' | 'exec';
+
+/**
+ * An entry in allowedDirectories: a path with write access, or a path with a tier
+ */
+export type AllowedDirectory = string | { path: string; access: DirectoryAccess };
+
+/**
+ * Restrictions on input sent to a program running in a session (not the shell prompt)
+ */
+export interface InteractiveInputPolicy {
+  maxLength?: number;
+  allowedPatterns?: string[]; // Input must fully match one of these regexes
+  deniedPatterns?: string[]; // Input is rejected if any of these regexes match
+}
+
+/**
+ * A command that needs human approval before it runs
+ */
+export interface ApprovalRule {
+  command: string;
+  exemptDirectories?: string[]; // No approval needed when all paths are inside these
+}
+
 /**
  * Configuration for the Bash MCP
  */
 export interface MCPConfig {
-  allowedCommands: string[];
-  allowedDirectories: string[];
+  allowedCommands: AllowedCommand[];
+  allowedDirectories: AllowedDirectory[];
   session: {
     timeout: number;
     maxActiveSessions: number;
     defaultMode: 'stateless' | 'stateful';
+    interactiveInput?: InteractiveInputPolicy;
   };
   security: {
     validateCommandsStrictly: boolean;
     sanitizeOutput: boolean;
-    maxOutputSize: number;
+    maxOutputSize: number; // Bytes (UTF-8) of output returned per command and per read_output page
+    maxStdinSize?: number; // Bytes of stdin a command may be given; defaults to 1 MiB
     commandTimeout: number;
+    killGracePeriod?: number; // Seconds between SIGTERM and SIGKILL when stopping a command; defaults to 5
+    redactSecrets?: boolean; // Defaults to true
+    redactionPatterns?: string[]; // Extra regexes for secrets, reported as "custom"
+    resourceLimits?: ResourceLimits; // Defaults for every command and session
+  };
+  resourceProfiles?: Record<string, ResourceLimits>;
+  sandbox?: SandboxConfig;
+  audit?: {
+    file: string; // JSONL file the audit records are appended to
+  };
+  changeTracking?: {
+    enabled: boolean;
+    maxFiles?: number; // Directories with more entries are not tracked; defaults to 10000
+    maxHashSize?: number; // Files up to this many bytes are also compared by hash; defaults to 1 MiB
+    maxHashTotal?: number; // Bytes hashed per snapshot before falling back to size and mtime; defaults to 64 MiB
+  };
+  environment?: EnvironmentPolicy;
+  trash?: TrashConfig;
+  outputStore?: OutputStoreConfig;
+  compaction?: CompactionConfig;
+  jobs?: {
+    maxJobs?: number; // Jobs kept at once, running or finished; defaults to 10
+    maxOutputSize?: number; // Characters of output kept per job, newest first; defaults to 1 MiB
+    retention?: number; // Seconds a finished job is kept; defaults to 3600
+    maxWait?: number; // Longest wait_job wait in seconds; defaults to 60
   };
   logging: {
     level: string;
@@ -21,6 +130,12 @@ export interface MCPConfig {
     maxSize: number;
     maxFiles: number;
   };
+  approval?: {
+    rules: ApprovalRule[];
+    pendingTimeout?: number; // Seconds before an undecided request expires
+    stateFile?: string; // Shared with the CLI so approvals can be made from another process
+    toolApproval?: boolean; // Offer the approve_command tool; off by default, leaving approval to the CLI
+  };
 }
 
 /**
@@ -36,6 +151,59 @@ export interface Session {
   cwd: string;
   user?: string;
   isInteractive: boolean;
+  screen?: TerminalScreen; // Virtual screen rendered from everything the session printed
+}
+
+/**
+ * Virtual terminal screen fed with the output of a terminal program
+ */
+export interface TerminalScreen {
+  write(data: string): void;
+  snapshot(withStyles?: boolean): ScreenSnapshot;
+}
+
+/**
+ * Colour of a screen cell: a palette index (0-255) or "#rrggbb"
+ */
+export type ScreenColor = number | string;
+
+/**
+ * Attributes of screen cells; unset attributes are off
+ */
+export interface ScreenStyle {
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  blink?: boolean;
+  inverse?: boolean; // Foreground and background swapped, e.g. for selections
+  hidden?: boolean;
+  strikethrough?: boolean;
+  foreground?: ScreenColor;
+  background?: ScreenColor;
+}
+
+/**
+ * Cells on one screen row drawn with the same non-default style
+ */
+export interface ScreenStyleRun extends ScreenStyle {
+  row: number; // Zero-based
+  column: number; // Zero-based
+  length: number;
+}
+
+/**
+ * The rendered contents of a terminal screen
+ */
+export interface ScreenSnapshot {
+  columns: number;
+  rows: number;
+  lines: string[]; // One per row, with trailing spaces removed
+  cursor: { row: number; column: number }; // Zero-based
+  cursorVisible: boolean;
+  alternateScreen: boolean; // Full-screen programs draw on the alternate screen
+  title?: string; // Window title set by the program
+  styles?: ScreenStyleRun[]; // Runs of cells with attributes, when asked for
 }
 
 /**
@@ -46,22 +214,217 @@ export interface ExecutionOptions {
   timeout?: number;
   cwd?: string;
   env?: NodeJS.ProcessEnv;
+  onOutput?: OutputListener; // Receives output while the command runs
+  signal?: AbortSignal; // Stops the command when aborted, e.g. when the client cancels the request
+  stdin?: string; // Written to a stateless command's stdin, which is then closed
+  stdinEncoding?: 'text' | 'base64'; // Encoding of stdin; defaults to text
+  compact?: boolean; // Compact the output; overrides compaction.enabled
 }
 
+/**
+ * Receives command output as it is produced, redacted and split into whole lines
+ * Session output comes from a terminal and is always reported as stdout
+ */
+export type OutputListener = (chunk: string, stream: 'stdout' | 'stderr') => void;
+
 /**
  * Result of command execution
  */
 export interface ExecutionResult {
   success: boolean;
-  output: string;
-  exitCode?: number;
+  output: string; // stdout and stderr together, sanitized for display
+  stdout?: string; // Set for stateless commands, with secrets redacted; left out when the output was cut
+  stderr?: string;
+  exitCode?: number; // Exact exit code, including 0; unset when a signal ended the process
+  signal?: string; // Signal that ended the process, e.g. "SIGKILL"
+  timedOut?: boolean; // Set when the command timeout stopped the process
+  cancelled?: boolean; // Set when the request was cancelled while the command ran
+  durationMs?: number;
+  truncated?: boolean; // Set when output was cut to security.maxOutputSize
+  outputHandle?: string; // Handle for reading the full output with read_output, when it was cut
+  compaction?: CompactionReport; // Set when the output was compacted
+  waitEndedBy?: 'match' | 'idle' | 'timeout'; // What ended a wait for session output
+  match?: OutputMatch; // The pattern that ended a wait for session output
+  cwd?: string; // Resolved working directory the command ran in
   error?: string;
   sessionId?: string;
   command: string;
   isInteractive?: boolean;
   waitingForInput?: boolean;
+  pendingApprovalId?: string; // Set when the command is waiting for approval
+  redactions?: RedactionCounts; // Secrets removed from the output, by kind
+  limitExceeded?: keyof ResourceLimits; // Set when a resource limit stopped the command
+  denied?: boolean; // Set when validation rejected the command before it ran
+  changes?: FileChanges; // Files the command changed, when change tracking is enabled
+  trashed?: TrashItem[]; // Files saved to the trash before the command deleted or overwrote them
+  jobId?: string; // Set when the command was started as a background job
+}
+
+/**
+ * State of a background job
+ */
+export interface JobInfo {
+  id: string;
+  command: string;
+  cwd: string;
+  status: 'running' | 'succeeded' | 'failed' | 'killed';
+  pid?: number;
+  exitCode?: number;
+  signal?: string;
+  error?: string;
+  limitExceeded?: keyof ResourceLimits;
+  startedAt: string;
+  finishedAt?: string;
+  outputSize: number; // Characters of redacted output so far, including dropped output
+}
+
+/**
+ * A slice of a background job's output
+ * Offsets count characters from the start of the job's output
+ */
+export interface JobOutput {
+  jobId: string;
+  offset: number; // Where this slice starts
+  nextOffset: number; // Offset to read from next
+  output: string;
+  skipped: number; // Characters before this slice that were requested but are no longer kept
+  running: boolean;
+}
+
+/**
+ * Trash store for files removed or overwritten by commands
+ */
+export interface TrashConfig {
+  enabled: boolean;
+  directory: string; // Where trashed files and the trash index are kept
+  maxItems?: number; // Oldest items are removed beyond this count
+  maxAge?: number; // Seconds an item is kept
+  maxSize?: number; // Total bytes kept; larger items are not saved at all
+}
+
+/**
+ * Compaction of command output for language models
+ * Every step is on unless set to false
+ */
+export interface CompactionConfig {
+  enabled: boolean; // Compact output by default; each call can override this
+  stripAnsi?: boolean; // Remove ANSI colour codes and other escape sequences
+  collapseCarriageReturns?: boolean; // Keep only the final state of lines rewritten with \r
+  dedupeLines?: boolean; // Fold runs of identical lines into one line with a count
+  tokenBudget?: number; // Estimated tokens of output to return; lines are cut from the middle beyond it
+}
+
+/**
+ * What compaction removed from an output
+ */
+export interface CompactionReport {
+  ansiCodes: number; // Escape sequences removed
+  rewrittenLines: number; // Lines collapsed to their final state
+  duplicateLines: number; // Repeated lines folded into a count
+  omittedLines: number; // Lines cut to fit the token budget
+  omittedTokens?: number; // Estimated tokens of the cut lines
+  tokens: number; // Estimated tokens before compaction
+  compactedTokens: number; // Estimated tokens after compaction
+}
+
+/**
+ * Store for the full output of commands whose output was cut to security.maxOutputSize
+ */
+export interface OutputStoreConfig {
+  enabled: boolean;
+  directory: string; // Where outputs are spilled when they no longer fit in memory
+  maxEntries?: number; // Outputs kept, least recently used removed first; defaults to 50
+  maxMemory?: number; // Bytes kept in memory before the least recently used outputs are spilled; defaults to 16 MiB
+  maxDiskSize?: number; // Bytes spilled to disk before the least recently used outputs are removed; defaults to 256 MiB
+  ttl?: number; // Seconds an output is kept after it was last read; defaults to 3600
 }
 
+/**
+ * Part of a stored output to read: a byte range, a line range, or the lines matching a pattern
+ */
+export interface OutputQuery {
+  offset?: number; // First byte to read; defaults to 0
+  length?: number; // Bytes to read; defaults to security.maxOutputSize
+  startLine?: number; // First line to read, counting from 1
+  endLine?: number; // Last line to read, inclusive
+  pattern?: string; // Regular expression; returns the matching lines with their numbers
+}
+
+/**
+ * Part of a stored output
+ * Output is cut to security.maxOutputSize bytes; truncated is then set
+ */
+export interface OutputPage {
+  handle: string;
+  output: string;
+  totalBytes: number;
+  totalLines: number;
+  offset?: number; // Byte range read, for byte reads
+  nextOffset?: number;
+  startLine?: number; // Line range read, for line reads
+  endLine?: number;
+  matches?: number; // Number of matching lines, for pattern reads
+  truncated?: boolean;
+}
+
+/**
+ * A file or directory saved to the trash
+ */
+export interface TrashItem {
+  id: string;
+  originalPath: string;
+  reason: 'deleted' | 'overwritten';
+  command: string;
+  trashedAt: string;
+  size: number; // Bytes, including the contents of directories
+}
+
+/**
+ * Files created, modified and deleted by a command, as absolute paths
+ */
+export interface FileChanges {
+  created: string[];
+  modified: string[];
+  deleted: string[];
+  skipped?: string; // Why no changes could be reported
+}
+
+/**
+ * A record in the audit log
+ * Each record holds the hash of the previous one, so that editing, removing or
+ * reordering records breaks the chain
+ */
+export interface AuditRecord {
+  seq: number;
+  timestamp: string;
+  tool: string; // MCP tool that ran the command, e.g. "execute_command"
+  command: string;
+  cwd: string;
+  sessionId?: string;
+  decision: 'allowed' | 'denied' | 'pending-approval' | 'error';
+  reason?: string;
+  exitCode?: number;
+  durationMs: number;
+  outputDigest: string; // sha256 of the output returned to the client
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Result of checking the audit log's hash chain
+ */
+export interface AuditVerification {
+  valid: boolean;
+  records: number; // Records checked, up to the first broken one
+  error?: string;
+  line?: number; // Line of the first broken record
+}
+
+/**
+ * Number of redacted secrets of each kind (e.g. "aws-access-key": 2)
+ */
+export type RedactionCounts = Record<string, number>;
+
 /**
  * Input for an interactive session
  */
@@ -69,4 +432,135 @@ export interface SessionInput {
   sessionId: string;
   input: string;
   timeout?: number; // Timeout in milliseconds for collecting output
+  onOutput?: OutputListener; // Receives output while it is collected
+  signal?: AbortSignal; // Stops the foreground program and the collection when aborted
+  compact?: boolean; // Compact the output; overrides compaction.enabled
+}
+
+/**
+ * Conditions that end a wait for session output
+ * The first one met ends the wait; without patterns or an idle timeout it lasts
+ * the whole timeout
+ */
+export interface WaitCondition {
+  patterns?: string[]; // Regular expressions tested against the output so far
+  literals?: string[]; // Literal strings, tested after the patterns
+  idleTimeout?: number; // Milliseconds without new output that end the wait
+  timeout?: number; // Milliseconds to wait at most
+}
+
+/**
+ * A wait for the output of an interactive session, after optional input
+ */
+export interface OutputWait extends WaitCondition {
+  sessionId: string;
+  input?: string; // Sent before waiting, like send_session_input
+  onOutput?: OutputListener; // Receives output while it is collected
+  signal?: AbortSignal; // Stops the foreground program and the wait when aborted
+  compact?: boolean; // Compact the output; overrides compaction.enabled
+}
+
+/**
+ * The pattern that ended a wait for session output
+ */
+export interface OutputMatch {
+  pattern: string; // The pattern or literal string as given
+  literal: boolean; // Whether it was a literal string
+  text: string; // The text it matched
+}
+
+/**
+ * A command or process substitution embedded in a shell word
+ */
+export interface ShellSubstitution {
+  kind: '$(' | '`' | '<(' | '>(';
+  body: ShellNode;
+}
+
+/**
+ * A single shell word as written in the source and after quote removal
+ */
+export interface ShellWord {
+  raw: string;
+  value: string; // Quote-removed text; expansions are kept as written
+  quoted: boolean;
+  expanded: boolean; // Contains parameter, arithmetic, command, brace or pathname expansion
+  substitutions: ShellSubstitution[];
+}
+
+/**
+ * A redirection attached to a command (e.g. "2>&1" or "> out.txt")
+ */
+export interface ShellRedirection {
+  operator: string;
+  fd?: number;
+  target: ShellWord;
+  heredoc?: string; // Body of a here-document
+}
+
+/**
+ * A simple command: assignments, a command name, arguments and redirections
+ */
+export interface ShellSimpleCommand {
+  type: 'command';
+  assignments: ShellWord[];
+  name?: ShellWord;
+  args: ShellWord[];
+  redirections: ShellRedirection[];
+}
+
+/**
+ * A parenthesised list executed in a subshell
+ */
+export interface ShellSubshell {
+  type: 'subshell';
+  body: ShellNode;
+  redirections: ShellRedirection[];
+}
+
+/**
+ * Commands connected with | or |&
+ */
+export interface ShellPipeline {
+  type: 'pipeline';
+  negated: boolean;
+  commands: ShellNode[];
+  operators: string[];
+}
+
+/**
+ * Pipelines separated by ;, &, && or ||
+ */
+export interface ShellList {
+  type: 'list';
+  commands: ShellNode[];
+  operators: string[];
+}
+
+/**
+ * A node of a parsed command line
+ */
+export type ShellNode = ShellSimpleCommand | ShellSubshell | ShellPipeline | ShellList;
+
+/**
+ * A command waiting for a human decision
+ */
+export interface PendingCommand {
+  id: string;
+  command: string;
+  cwd: string;
+  sessionId?: string;
+  rule: string;
+  requestedAt: string;
+}
+
+/**
+ * Permission to run an approved command, once or until it expires
+ */
+export interface ApprovalGrant {
+  pendingId: string;
+  command: string;
+  cwd: string;
+  approvedAt: string;
+  expiresAt?: string; // One-shot grants have no expiry and are used up by the next run
 }
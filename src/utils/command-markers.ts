@@ -0,0 +1,65 @@
+import { v4 as uuidv4 } from 'uuid';
+
+const MARKER_PREFIX = '__bash_mcp_';
+
+// Characters searched again on each scan, so a marker split across chunks is found
+const MARKER_OVERLAP = 80;
+
+export interface CommandMarkers {
+  line: string; // Command line to write to the shell
+  scan(output: string): MarkedOutput;
+}
+
+export interface MarkedOutput {
+  start?: number; // Index in the output where the command's own output starts
+  end?: number; // Index where it ends, once the end marker has been seen
+  exitCode?: number; // Exit status of the command, once it has finished
+}
+
+/**
+ * Wrap a command for a shell session so that its output and exit status can be found
+ * The shell prints a unique start marker, runs the command with eval, then prints an
+ * end marker holding $?. Running the command through eval keeps a comment, trailing
+ * "&" or unbalanced quote in it from swallowing the end marker. The markers are built
+ * by printf, so the terminal's echo of the line does not contain them.
+ */
+export function createCommandMarkers(command: string): CommandMarkers {
+  const id = uuidv4().replace(/-/g, '');
+  const startPattern = new RegExp(`${MARKER_PREFIX}start_${id}__\\r?\\n`, 'g');
+  const endPattern = new RegExp(`${MARKER_PREFIX}end_${id}_(\\d+)__`, 'g');
+  const quoted = `'${command.replace(/'/g, `'\\''`)}'`;
+
+  let searched = 0;
+  let result: MarkedOutput = {};
+
+  return {
+    line:
+      `printf '${MARKER_PREFIX}%s_%s__\\n' start ${id}; eval ${quoted}; ` +
+      `printf '${MARKER_PREFIX}%s_%s_%s__\\n' end ${id} "$?"`,
+
+    scan(output) {
+      if (result.end !== undefined) {
+        return result;
+      }
+
+      if (result.start === undefined) {
+        startPattern.lastIndex = Math.max(0, searched - MARKER_OVERLAP);
+        const match = startPattern.exec(output);
+        if (!match) {
+          searched = output.length;
+          return result;
+        }
+        searched = match.index + match[0].length;
+        result = { start: searched };
+      }
+
+      endPattern.lastIndex = Math.max(result.start!, searched - MARKER_OVERLAP);
+      const match = endPattern.exec(output);
+      searched = output.length;
+      if (match) {
+        result = { ...result, end: match.index, exitCode: Number(match[1]) };
+      }
+      return result;
+    },
+  };
+}
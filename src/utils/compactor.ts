@@ -0,0 +1,139 @@
+import { CompactionConfig, CompactionReport, MCPConfig } from '../types/index.js';
+
+// CSI sequences (colours, cursor movement), OSC sequences (titles, links) and other escapes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/**
+ * Get the compaction settings for a command, or undefined if its output is not compacted
+ * A per-call setting overrides compaction.enabled
+ */
+export function getCompaction(config: MCPConfig, compact?: boolean): CompactionConfig | undefined {
+  const enabled = compact ?? config.compaction?.enabled ?? false;
+  return enabled ? { ...config.compaction, enabled } : undefined;
+}
+
+/**
+ * Remove ANSI escape sequences from text
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Estimate the number of tokens a language model needs for a text
+ * Runs of letters and digits count one token per four characters, every other
+ * character except whitespace counts as one token
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g)) {
+    tokens += Math.ceil(match[0].length / 4);
+  }
+  return tokens;
+}
+
+/**
+ * Compact command output for a language model
+ * Removes ANSI escape sequences, keeps only the final state of lines rewritten with
+ * carriage returns (progress bars), folds runs of identical lines into one line
+ * with a count, and cuts lines from the middle to fit compaction.tokenBudget.
+ * When lines are cut, keep may store the full output and return a handle for it.
+ */
+export function compactOutput(
+  output: string,
+  settings: CompactionConfig,
+  keep?: (output: string) => string | undefined
+): { output: string; report: CompactionReport; outputHandle?: string } {
+  const report: CompactionReport = {
+    ansiCodes: 0,
+    rewrittenLines: 0,
+    duplicateLines: 0,
+    omittedLines: 0,
+    tokens: estimateTokens(output),
+    compactedTokens: 0,
+  };
+  let text = output;
+  let outputHandle: string | undefined;
+
+  if (settings.stripAnsi !== false) {
+    text = text.replace(ANSI_PATTERN, () => {
+      report.ansiCodes++;
+      return '';
+    });
+  }
+
+  let lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  if (settings.collapseCarriageReturns !== false) {
+    lines = lines.map((line) => {
+      if (!line.includes('\r')) {
+        return line;
+      }
+      report.rewrittenLines++;
+      // Each rewrite overwrites the start of the line, like a terminal does
+      return line
+        .split('\r')
+        .reduce((screen, segment) => segment + screen.substring(segment.length), '');
+    });
+  }
+
+  if (settings.dedupeLines !== false) {
+    const folded: string[] = [];
+    for (let i = 0; i < lines.length; ) {
+      let run = 1;
+      while (i + run < lines.length && lines[i + run] === lines[i]) {
+        run++;
+      }
+      folded.push(run > 1 ? `${lines[i]} [repeated ${run} times]` : lines[i]);
+      report.duplicateLines += run - 1;
+      i += run;
+    }
+    lines = folded;
+  }
+
+  if (settings.tokenBudget !== undefined && estimateTokens(lines.join('\n')) > settings.tokenBudget) {
+    outputHandle = keep?.(output);
+    lines = fitTokenBudget(lines, settings.tokenBudget, report, outputHandle);
+  }
+
+  text = lines.join('\n');
+  report.compactedTokens = estimateTokens(text);
+  return { output: text, report, ...(outputHandle && { outputHandle }) };
+}
+
+/**
+ * Keep the first and last lines that fit in half the budget each, replacing the
+ * lines in between with a note; the note's own tokens come out of the budget
+ */
+function fitTokenBudget(
+  lines: string[],
+  budget: number,
+  report: CompactionReport,
+  handle?: string
+): string[] {
+  const costs = lines.map((line) => estimateTokens(line));
+  const describe = (omittedLines: number, omittedTokens: number) =>
+    `[${omittedLines} lines (~${omittedTokens} tokens) omitted to fit the token budget` +
+    `${handle ? `; read the full output with read_output and handle ${handle}` : ''}]`;
+
+  const total = costs.reduce((sum, cost) => sum + cost, 0);
+  const available = Math.max(0, budget - estimateTokens(describe(lines.length, total)));
+
+  let head = 0;
+  for (let used = 0; head < lines.length && used + costs[head] <= available / 2; head++) {
+    used += costs[head];
+  }
+  let tail = lines.length;
+  for (let used = 0; tail > head && used + costs[tail - 1] <= available / 2; tail--) {
+    used += costs[tail - 1];
+  }
+
+  report.omittedLines = tail - head;
+  report.omittedTokens = costs.slice(head, tail).reduce((sum, cost) => sum + cost, 0);
+
+  return [
+    ...lines.slice(0, head),
+    describe(report.omittedLines, report.omittedTokens),
+    ...lines.slice(tail),
+  ];
+}
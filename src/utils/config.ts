@@ -1,6 +1,15 @@
 import fs from 'fs-extra';
-import { MCPConfig } from '../types/index.js';
+import {
+  AllowedCommand,
+  AllowedDirectory,
+  EnvironmentPolicy,
+  InteractiveInputPolicy,
+  MCPConfig,
+  ResourceLimits,
+  SandboxConfig,
+} from '../types/index.js';
 import { logger } from './logger.js';
+import { RESOURCE_LIMIT_KINDS } from './resource-limits.js';
 
 /**
  * Load and validate the configuration
@@ -37,10 +46,29 @@ function validateConfig(config: MCPConfig): void {
     throw new Error('Config error: allowedCommands must be an array');
   }
 
+  if (config.resourceProfiles !== undefined) {
+    if (
+      !config.resourceProfiles ||
+      typeof config.resourceProfiles !== 'object' ||
+      Array.isArray(config.resourceProfiles)
+    ) {
+      throw new Error('Config error: resourceProfiles must be an object');
+    }
+    for (const [name, limits] of Object.entries(config.resourceProfiles)) {
+      validateResourceLimits(limits, `resourceProfiles.${name}`);
+    }
+  }
+
+  config.allowedCommands.forEach((entry, index) =>
+    validateAllowedCommand(entry, index, config.resourceProfiles)
+  );
+
   if (!config.allowedDirectories || !Array.isArray(config.allowedDirectories)) {
     throw new Error('Config error: allowedDirectories must be an array');
   }
 
+  config.allowedDirectories.forEach(validateAllowedDirectory);
+
   if (!config.session || typeof config.session !== 'object') {
     throw new Error('Config error: session configuration is required');
   }
@@ -69,15 +97,145 @@ function validateConfig(config: MCPConfig): void {
     throw new Error('Config error: security.maxOutputSize must be a positive number');
   }
 
+  if (
+    config.security.maxStdinSize !== undefined &&
+    (typeof config.security.maxStdinSize !== 'number' || config.security.maxStdinSize < 0)
+  ) {
+    throw new Error('Config error: security.maxStdinSize must be a non-negative number');
+  }
+
   if (typeof config.security.commandTimeout !== 'number' || config.security.commandTimeout <= 0) {
     throw new Error('Config error: security.commandTimeout must be a positive number');
   }
 
+  if (
+    config.security.killGracePeriod !== undefined &&
+    (typeof config.security.killGracePeriod !== 'number' || config.security.killGracePeriod < 0)
+  ) {
+    throw new Error('Config error: security.killGracePeriod must be a non-negative number');
+  }
+
+  if (config.security.redactionPatterns !== undefined) {
+    if (
+      !Array.isArray(config.security.redactionPatterns) ||
+      config.security.redactionPatterns.some((p) => typeof p !== 'string')
+    ) {
+      throw new Error('Config error: security.redactionPatterns must be an array of strings');
+    }
+    for (const pattern of config.security.redactionPatterns) {
+      try {
+        new RegExp(pattern, 'g');
+      } catch {
+        throw new Error(`Config error: security.redactionPatterns contains an invalid regex: ${pattern}`);
+      }
+    }
+  }
+
+  if (config.security.resourceLimits !== undefined) {
+    validateResourceLimits(config.security.resourceLimits, 'security.resourceLimits');
+  }
+
   // Validate session mode
   if (config.session.defaultMode !== 'stateless' && config.session.defaultMode !== 'stateful') {
     throw new Error('Config error: session.defaultMode must be "stateless" or "stateful"');
   }
 
+  if (config.session.interactiveInput !== undefined) {
+    validateInteractiveInputPolicy(config.session.interactiveInput);
+  }
+
+  if (config.approval !== undefined) {
+    validateApprovalConfig(config.approval);
+  }
+
+  if (config.sandbox !== undefined) {
+    validateSandboxConfig(
+      config.sandbox,
+      config.allowedDirectories.map((entry) => (typeof entry === 'string' ? entry : entry.path))
+    );
+  }
+
+  if (config.environment !== undefined) {
+    validateEnvironmentPolicy(config.environment);
+  }
+
+  if (
+    config.audit !== undefined &&
+    (!config.audit || typeof config.audit.file !== 'string' || !config.audit.file)
+  ) {
+    throw new Error('Config error: audit.file must be a file path');
+  }
+
+  if (config.changeTracking !== undefined) {
+    if (!config.changeTracking || typeof config.changeTracking.enabled !== 'boolean') {
+      throw new Error('Config error: changeTracking.enabled must be a boolean');
+    }
+    for (const key of ['maxFiles', 'maxHashSize', 'maxHashTotal'] as const) {
+      const value = config.changeTracking[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        throw new Error(`Config error: changeTracking.${key} must be a non-negative number`);
+      }
+    }
+  }
+
+  if (config.trash !== undefined) {
+    if (!config.trash || typeof config.trash.enabled !== 'boolean') {
+      throw new Error('Config error: trash.enabled must be a boolean');
+    }
+    if (typeof config.trash.directory !== 'string' || !config.trash.directory) {
+      throw new Error('Config error: trash.directory must be a directory path');
+    }
+    for (const key of ['maxItems', 'maxAge', 'maxSize'] as const) {
+      const value = config.trash[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        throw new Error(`Config error: trash.${key} must be a non-negative number`);
+      }
+    }
+  }
+
+  if (config.outputStore !== undefined) {
+    if (!config.outputStore || typeof config.outputStore.enabled !== 'boolean') {
+      throw new Error('Config error: outputStore.enabled must be a boolean');
+    }
+    if (typeof config.outputStore.directory !== 'string' || !config.outputStore.directory) {
+      throw new Error('Config error: outputStore.directory must be a directory path');
+    }
+    for (const key of ['maxEntries', 'maxMemory', 'maxDiskSize', 'ttl'] as const) {
+      const value = config.outputStore[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        throw new Error(`Config error: outputStore.${key} must be a non-negative number`);
+      }
+    }
+  }
+
+  if (config.compaction !== undefined) {
+    if (!config.compaction || typeof config.compaction.enabled !== 'boolean') {
+      throw new Error('Config error: compaction.enabled must be a boolean');
+    }
+    for (const key of ['stripAnsi', 'collapseCarriageReturns', 'dedupeLines'] as const) {
+      const value = config.compaction[key];
+      if (value !== undefined && typeof value !== 'boolean') {
+        throw new Error(`Config error: compaction.${key} must be a boolean`);
+      }
+    }
+    const tokenBudget = config.compaction.tokenBudget;
+    if (tokenBudget !== undefined && (typeof tokenBudget !== 'number' || tokenBudget < 0)) {
+      throw new Error('Config error: compaction.tokenBudget must be a non-negative number');
+    }
+  }
+
+  if (config.jobs !== undefined) {
+    if (!config.jobs || typeof config.jobs !== 'object') {
+      throw new Error('Config error: jobs must be an object');
+    }
+    for (const key of ['maxJobs', 'maxOutputSize', 'retention', 'maxWait'] as const) {
+      const value = config.jobs[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        throw new Error(`Config error: jobs.${key} must be a non-negative number`);
+      }
+    }
+  }
+
   // Validate logging level
   const validLogLevels = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
   if (!validLogLevels.includes(config.logging.level)) {
@@ -86,3 +244,245 @@ function validateConfig(config: MCPConfig): void {
 
   // logger.info('Configuration validated successfully');
 }
+
+/**
+ * Validate a single allowedCommands entry
+ */
+function validateAllowedCommand(
+  entry: AllowedCommand,
+  index: number,
+  resourceProfiles: MCPConfig['resourceProfiles']
+): void {
+  if (typeof entry === 'string') {
+    return;
+  }
+
+  if (!entry || typeof entry !== 'object' || typeof entry.command !== 'string' || !entry.command) {
+    throw new Error(
+      `Config error: allowedCommands[${index}] must be a command name or an object with a command`
+    );
+  }
+
+  for (const key of ['allowedFlags', 'deniedFlags', 'argumentPatterns', 'deniedSubcommands'] as const) {
+    const value = entry[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))) {
+      throw new Error(`Config error: allowedCommands[${index}].${key} must be an array of strings`);
+    }
+  }
+
+  for (const pattern of entry.argumentPatterns || []) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(
+        `Config error: allowedCommands[${index}].argumentPatterns contains an invalid regex: ${pattern}`
+      );
+    }
+  }
+
+  if (
+    entry.maxArguments !== undefined &&
+    (typeof entry.maxArguments !== 'number' || entry.maxArguments < 0)
+  ) {
+    throw new Error(`Config error: allowedCommands[${index}].maxArguments must be a non-negative number`);
+  }
+
+  for (const key of ['pathArguments', 'writeArguments'] as const) {
+    const value = entry[key];
+    const modes = key === 'pathArguments' ? ['auto', 'all', 'none'] : ['all', 'last', 'none'];
+    if (
+      value !== undefined &&
+      !(typeof value === 'string' && modes.includes(value)) &&
+      !(Array.isArray(value) && value.every((n) => Number.isInteger(n) && n > 0))
+    ) {
+      throw new Error(
+        `Config error: allowedCommands[${index}].${key} must be ${modes.map((m) => `"${m}"`).join(', ')} or an array of operand positions`
+      );
+    }
+  }
+
+  if (entry.resourceProfile !== undefined && !resourceProfiles?.[entry.resourceProfile]) {
+    throw new Error(
+      `Config error: allowedCommands[${index}].resourceProfile "${entry.resourceProfile}" is not defined in resourceProfiles`
+    );
+  }
+
+  if (entry.resourceLimits !== undefined) {
+    validateResourceLimits(entry.resourceLimits, `allowedCommands[${index}].resourceLimits`);
+  }
+}
+
+/**
+ * Validate a set of resource limits
+ */
+function validateResourceLimits(limits: ResourceLimits, field: string): void {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+    throw new Error(`Config error: ${field} must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(limits)) {
+    if (!RESOURCE_LIMIT_KINDS.includes(key as keyof ResourceLimits)) {
+      throw new Error(
+        `Config error: ${field}.${key} is not a known limit (${RESOURCE_LIMIT_KINDS.join(', ')})`
+      );
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`Config error: ${field}.${key} must be a positive integer`);
+    }
+  }
+}
+
+/**
+ * Validate a single allowedDirectories entry
+ */
+function validateAllowedDirectory(entry: AllowedDirectory, index: number): void {
+  if (typeof entry === 'string') {
+    return;
+  }
+
+  if (!entry || typeof entry !== 'object' || typeof entry.path !== 'string' || !entry.path) {
+    throw new Error(
+      `Config error: allowedDirectories[${index}] must be a path or an object with a path`
+    );
+  }
+
+  if (!['read', 'write', 'exec'].includes(entry.access)) {
+    throw new Error(
+      `Config error: allowedDirectories[${index}].access must be "read", "write" or "exec"`
+    );
+  }
+}
+
+/**
+ * Validate the policy for input sent to programs running in a session
+ */
+function validateInteractiveInputPolicy(policy: InteractiveInputPolicy): void {
+  if (!policy || typeof policy !== 'object') {
+    throw new Error('Config error: session.interactiveInput must be an object');
+  }
+
+  if (policy.maxLength !== undefined && (typeof policy.maxLength !== 'number' || policy.maxLength <= 0)) {
+    throw new Error('Config error: session.interactiveInput.maxLength must be a positive number');
+  }
+
+  for (const key of ['allowedPatterns', 'deniedPatterns'] as const) {
+    const patterns = policy[key];
+    if (patterns === undefined) {
+      continue;
+    }
+    if (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string')) {
+      throw new Error(`Config error: session.interactiveInput.${key} must be an array of strings`);
+    }
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new Error(
+          `Config error: session.interactiveInput.${key} contains an invalid regex: ${pattern}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Validate the approval workflow configuration
+ */
+function validateApprovalConfig(approval: NonNullable<MCPConfig['approval']>): void {
+  if (!approval || typeof approval !== 'object' || !Array.isArray(approval.rules)) {
+    throw new Error('Config error: approval.rules must be an array');
+  }
+
+  approval.rules.forEach((rule, index) => {
+    if (!rule || typeof rule.command !== 'string' || !rule.command) {
+      throw new Error(`Config error: approval.rules[${index}].command must be a command name`);
+    }
+    if (
+      rule.exemptDirectories !== undefined &&
+      (!Array.isArray(rule.exemptDirectories) ||
+        rule.exemptDirectories.some((d) => typeof d !== 'string'))
+    ) {
+      throw new Error(
+        `Config error: approval.rules[${index}].exemptDirectories must be an array of strings`
+      );
+    }
+  });
+
+  if (
+    approval.pendingTimeout !== undefined &&
+    (typeof approval.pendingTimeout !== 'number' || approval.pendingTimeout <= 0)
+  ) {
+    throw new Error('Config error: approval.pendingTimeout must be a positive number');
+  }
+
+  if (approval.stateFile !== undefined && typeof approval.stateFile !== 'string') {
+    throw new Error('Config error: approval.stateFile must be a string');
+  }
+
+  if (approval.toolApproval !== undefined && typeof approval.toolApproval !== 'boolean') {
+    throw new Error('Config error: approval.toolApproval must be a boolean');
+  }
+}
+
+/**
+ * Validate the namespace sandbox configuration
+ */
+function validateSandboxConfig(sandbox: SandboxConfig, allowedDirectories: string[]): void {
+  if (!sandbox || typeof sandbox !== 'object' || typeof sandbox.enabled !== 'boolean') {
+    throw new Error('Config error: sandbox.enabled must be a boolean');
+  }
+
+  if (
+    sandbox.backend !== undefined &&
+    !['auto', 'bwrap', 'unshare'].includes(sandbox.backend)
+  ) {
+    throw new Error('Config error: sandbox.backend must be "auto", "bwrap" or "unshare"');
+  }
+
+  if (sandbox.network !== undefined && typeof sandbox.network !== 'boolean') {
+    throw new Error('Config error: sandbox.network must be a boolean');
+  }
+
+  for (const key of ['readOnlyDirectories', 'systemPaths'] as const) {
+    const paths = sandbox[key];
+    if (
+      paths !== undefined &&
+      (!Array.isArray(paths) || paths.some((p) => typeof p !== 'string' || !p.startsWith('/')))
+    ) {
+      throw new Error(`Config error: sandbox.${key} must be an array of absolute paths`);
+    }
+  }
+
+  for (const dir of sandbox.readOnlyDirectories || []) {
+    if (!allowedDirectories.includes(dir)) {
+      throw new Error(`Config error: sandbox.readOnlyDirectories entry ${dir} is not in allowedDirectories`);
+    }
+  }
+}
+
+/**
+ * Validate the environment variable policy
+ */
+function validateEnvironmentPolicy(policy: EnvironmentPolicy): void {
+  if (!policy || typeof policy !== 'object') {
+    throw new Error('Config error: environment must be an object');
+  }
+
+  for (const key of ['passthrough', 'deniedPatterns'] as const) {
+    const names = policy[key];
+    if (names !== undefined && (!Array.isArray(names) || names.some((n) => typeof n !== 'string'))) {
+      throw new Error(`Config error: environment.${key} must be an array of strings`);
+    }
+  }
+
+  if (policy.overrides !== undefined) {
+    if (
+      !policy.overrides ||
+      typeof policy.overrides !== 'object' ||
+      Array.isArray(policy.overrides) ||
+      Object.values(policy.overrides).some((v) => typeof v !== 'string')
+    ) {
+      throw new Error('Config error: environment.overrides must map names to string values');
+    }
+  }
+}
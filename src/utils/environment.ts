@@ -0,0 +1,120 @@
+import { MCPConfig } from '../types/index.js';
+import { PROTECTED_VARIABLES } from './validator.js';
+
+// Variables removed when environment.deniedPatterns is not configured
+export const DEFAULT_DENIED_PATTERNS = [
+  '*_TOKEN',
+  '*_KEY',
+  '*_SECRET',
+  '*PASSWORD*',
+  '*PASSWD*',
+  '*_CREDENTIALS',
+];
+
+// Variables copied from the server's environment when environment.passthrough is not configured
+export const DEFAULT_PASSTHROUGH = ['PATH', 'HOME', 'LANG', 'LC_*', 'TERM', 'USER', 'SHELL'];
+
+// Shell functions exported through the environment, which bash defines as it
+// starts and which can replace any command name
+const EXPORTED_FUNCTION_PATTERN = /^BASH_FUNC_/;
+
+/**
+ * Check whether a variable name matches a name pattern, where * matches any text
+ */
+function matchesNamePattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(name);
+}
+
+/**
+ * Find the denied pattern a variable name matches, if any
+ */
+function findDeniedPattern(name: string, config: MCPConfig): string | undefined {
+  const patterns = config.environment?.deniedPatterns ?? DEFAULT_DENIED_PATTERNS;
+  return patterns.find((pattern) => matchesNamePattern(name, pattern));
+}
+
+/**
+ * Check whether a variable may be passed on under a passthrough list
+ * Without a list, only the denied patterns and exported functions are removed
+ */
+function isPassedThrough(name: string, config: MCPConfig, passthrough?: string[]): boolean {
+  if (passthrough && !passthrough.some((pattern) => matchesNamePattern(name, pattern))) {
+    return false;
+  }
+
+  return !EXPORTED_FUNCTION_PATTERN.test(name) && findDeniedPattern(name, config) === undefined;
+}
+
+/**
+ * Validate variables requested for a command against the environment policy
+ * Requested variables must be passable under the policy, must not replace a forced
+ * override and must not change how commands are resolved (PATH, LD_PRELOAD, ...)
+ */
+export function validateEnvironment(
+  env: Record<string, string | undefined>,
+  config: MCPConfig
+): { isValid: boolean; reason?: string } {
+  for (const name of Object.keys(env)) {
+    if (PROTECTED_VARIABLES.includes(name) || EXPORTED_FUNCTION_PATTERN.test(name)) {
+      return { isValid: false, reason: `Environment variable "${name}" cannot be set` };
+    }
+
+    if (config.environment?.overrides && name in config.environment.overrides) {
+      return {
+        isValid: false,
+        reason: `Environment variable "${name}" is fixed by the environment policy`,
+      };
+    }
+
+    const deniedPattern = findDeniedPattern(name, config);
+    if (deniedPattern) {
+      return {
+        isValid: false,
+        reason: `Environment variable "${name}" matches denied pattern "${deniedPattern}"`,
+      };
+    }
+
+    if (!isPassedThrough(name, config, config.environment?.passthrough)) {
+      return {
+        isValid: false,
+        reason: `Environment variable "${name}" is not in the passthrough list`,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Build the environment for a command or session
+ * Starts from the server's environment filtered by the passthrough list (or
+ * DEFAULT_PASSTHROUGH) and denied patterns, adds the requested variables (which should be validated first), then
+ * applies the forced overrides.
+ */
+export function buildEnvironment(
+  config: MCPConfig,
+  requested: Record<string, string | undefined> = {}
+): Record<string, string> {
+  // bash reads ~/.bashrc when its input is a socket, as Node's pipes are, unless
+  // another shell started it
+  const env: Record<string, string> = { SHLVL: '1' };
+  const passthrough = config.environment?.passthrough ?? DEFAULT_PASSTHROUGH;
+
+  Object.entries(process.env).forEach(([key, value]) => {
+    if (value !== undefined && isPassedThrough(key, config, passthrough)) {
+      env[key] = value;
+    }
+  });
+
+  Object.entries(requested).forEach(([key, value]) => {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  });
+
+  return { ...env, ...config.environment?.overrides };
+}
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { FileChanges, MCPConfig } from '../types/index.js';
+import { getWritePaths, isDirectoryAllowed } from './validator.js';
+
+const DEFAULT_MAX_FILES = 10000;
+const DEFAULT_MAX_HASH_SIZE = 1024 * 1024;
+const DEFAULT_MAX_HASH_TOTAL = 64 * 1024 * 1024;
+
+interface FileState {
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  mtimeMs: number;
+  hash?: string;
+}
+
+export type FileSnapshot = Map<string, FileState>;
+
+/**
+ * Classify a directory entry from its lstat result
+ */
+function getFileType(stats: fs.Stats): FileState['type'] {
+  if (stats.isDirectory()) {
+    return 'directory';
+  }
+  if (stats.isFile()) {
+    return 'file';
+  }
+  return stats.isSymbolicLink() ? 'symlink' : 'other';
+}
+
+/**
+ * Work out which directories to snapshot for a command: the working directory,
+ * and the directories of files it writes elsewhere. Only allowed directories are
+ * included, and directories inside another root are dropped.
+ */
+export function getChangeRoots(command: string, config: MCPConfig, cwd: string): string[] {
+  const candidates = [cwd];
+
+  for (const writePath of getWritePaths(command, config, cwd)) {
+    let isDirectory = false;
+    try {
+      isDirectory = fs.statSync(writePath).isDirectory();
+    } catch {
+      // Not created yet; its parent shows the change
+    }
+    candidates.push(isDirectory ? writePath : path.dirname(writePath));
+  }
+
+  const allowed = candidates.filter((dir) => isDirectoryAllowed(dir, config));
+  return allowed.filter(
+    (dir, index) =>
+      allowed.indexOf(dir) === index &&
+      !allowed.some((other) => other !== dir && dir.startsWith(other + path.sep))
+  );
+}
+
+/**
+ * Record the type, size, mtime and (for small files) hash of everything under
+ * the given directories. Symlinks are recorded but not followed. Once
+ * changeTracking.maxHashTotal bytes have been hashed, the remaining files are
+ * recorded by size and mtime only.
+ * Returns undefined if there are more than changeTracking.maxFiles entries.
+ */
+export async function takeSnapshot(
+  roots: string[],
+  config: MCPConfig
+): Promise<FileSnapshot | undefined> {
+  const maxFiles = config.changeTracking?.maxFiles || DEFAULT_MAX_FILES;
+  const maxHashSize = config.changeTracking?.maxHashSize ?? DEFAULT_MAX_HASH_SIZE;
+  let hashBudget = config.changeTracking?.maxHashTotal ?? DEFAULT_MAX_HASH_TOTAL;
+  const snapshot: FileSnapshot = new Map();
+  const pending = [...roots];
+
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch {
+      // Missing or unreadable directories have nothing to compare
+      continue;
+    }
+
+    for (const name of names) {
+      const fullPath = path.join(dir, name);
+      let stats: fs.Stats;
+      try {
+        stats = await fs.lstat(fullPath);
+      } catch {
+        continue;
+      }
+
+      if (snapshot.size >= maxFiles) {
+        return undefined;
+      }
+
+      const state: FileState = {
+        type: getFileType(stats),
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+      };
+
+      if (state.type === 'file' && stats.size <= maxHashSize && stats.size <= hashBudget) {
+        hashBudget -= stats.size;
+        try {
+          state.hash = crypto
+            .createHash('sha256')
+            .update(await fs.readFile(fullPath))
+            .digest('hex');
+        } catch {
+          // Unreadable files are compared by size and mtime only
+        }
+      }
+
+      snapshot.set(fullPath, state);
+      if (state.type === 'directory') {
+        pending.push(fullPath);
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots
+ * Directories are reported when created or deleted, but not as modified, since
+ * their mtime changes whenever an entry is added or removed. Hashes are only
+ * compared when both snapshots hashed the file.
+ */
+export function diffSnapshots(before: FileSnapshot, after: FileSnapshot): FileChanges {
+  const changes: FileChanges = { created: [], modified: [], deleted: [] };
+
+  for (const [filePath, state] of after) {
+    const previous = before.get(filePath);
+    if (!previous) {
+      changes.created.push(filePath);
+    } else if (
+      previous.type !== state.type ||
+      (state.type !== 'directory' &&
+        (previous.size !== state.size ||
+          previous.mtimeMs !== state.mtimeMs ||
+          (previous.hash !== undefined &&
+            state.hash !== undefined &&
+            previous.hash !== state.hash)))
+    ) {
+      changes.modified.push(filePath);
+    }
+  }
+
+  for (const filePath of before.keys()) {
+    if (!after.has(filePath)) {
+      changes.deleted.push(filePath);
+    }
+  }
+
+  changes.created.sort();
+  changes.modified.sort();
+  changes.deleted.sort();
+  return changes;
+}
+
+/**
+ * Snapshot the directories again and report the changes since the first snapshot
+ * If either snapshot was too large, the report says so instead of listing changes
+ */
+export async function reportChanges(
+  roots: string[],
+  before: FileSnapshot | undefined,
+  config: MCPConfig
+): Promise<FileChanges> {
+  const after = before ? await takeSnapshot(roots, config) : undefined;
+  if (!before || !after) {
+    return {
+      created: [],
+      modified: [],
+      deleted: [],
+      skipped: `More than ${config.changeTracking?.maxFiles || DEFAULT_MAX_FILES} entries under ${roots.join(', ')}`,
+    };
+  }
+
+  return diffSnapshots(before, after);
+}
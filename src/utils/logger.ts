@@ -2,6 +2,21 @@ import winston from 'winston';
 import path from 'path';
 import fs from 'fs-extra';
 import { MCPConfig } from '../types/index.js';
+import { redactSecrets } from './redactor.js';
+
+/**
+ * Winston format that redacts secrets from log messages
+ */
+const redactFormat = winston.format((info, opts) => {
+  const { patterns } = (opts || {}) as { patterns?: string[] };
+  if (typeof info.message === 'string') {
+    info.message = redactSecrets(info.message, patterns).text;
+  }
+  return info;
+});
+
+// Console logging goes to stderr, since stdout carries the MCP protocol in server mode
+const STDERR_LEVELS = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
 
 /**
  * Create and configure the logger
@@ -12,14 +27,21 @@ export function createLogger(config: MCPConfig): winston.Logger {
   // Ensure log directory exists
   fs.ensureDirSync(logDir);
 
+  // Secrets are redacted from logs as well, unless redaction is turned off
+  const formats =
+    config.security.redactSecrets !== false
+      ? [redactFormat({ patterns: config.security.redactionPatterns })]
+      : [];
+
   return winston.createLogger({
     level: config.logging.level,
-    format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
+    format: winston.format.combine(...formats, winston.format.timestamp(), winston.format.json()),
     defaultMeta: { service: 'bash-mcp' },
     transports: [
       // Console transport
       new winston.transports.Console({
         format: winston.format.combine(winston.format.colorize(), winston.format.simple()),
+        stderrLevels: STDERR_LEVELS,
       }),
       // File transport
       new winston.transports.File({
@@ -34,6 +56,6 @@ export function createLogger(config: MCPConfig): winston.Logger {
 // Create a default logger that will be replaced once config is loaded
 export const logger = winston.createLogger({
   level: 'info',
-  format: winston.format.simple(),
-  transports: [new winston.transports.Console()],
+  format: winston.format.combine(redactFormat(), winston.format.simple()),
+  transports: [new winston.transports.Console({ stderrLevels: STDERR_LEVELS })],
 });
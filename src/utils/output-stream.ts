@@ -0,0 +1,57 @@
+import { MCPConfig, OutputListener } from '../types/index.js';
+import { createStreamRedactor, StreamRedactor } from './redactor.js';
+import { takeBytes } from './validator.js';
+
+export interface OutputStream {
+  write(chunk: string, stream: 'stdout' | 'stderr'): void;
+  flush(): void;
+}
+
+/**
+ * Pass command output to a listener as it arrives
+ * Output is forwarded in whole lines, and private key blocks whole, so that secrets
+ * can be redacted before they leave the server, and stops once
+ * security.maxOutputSize bytes have been forwarded. The final result still
+ * carries the full (sanitized) output.
+ */
+export function createOutputStream(config: MCPConfig, listener?: OutputListener): OutputStream {
+  let redactors: Record<'stdout' | 'stderr', StreamRedactor> | undefined;
+  if (config.security.redactSecrets !== false) {
+    redactors = {
+      stdout: createStreamRedactor(config.security.redactionPatterns),
+      stderr: createStreamRedactor(config.security.redactionPatterns),
+    };
+  }
+  let forwarded = 0;
+
+  const emit = (text: string, stream: 'stdout' | 'stderr'): void => {
+    if (!listener || !text || forwarded >= config.security.maxOutputSize) {
+      return;
+    }
+
+    const limited = takeBytes(text, config.security.maxOutputSize - forwarded);
+    if (!limited) {
+      return;
+    }
+    forwarded += Buffer.byteLength(limited);
+    listener(limited, stream);
+  };
+
+  return {
+    write(chunk, stream) {
+      if (!listener) {
+        return;
+      }
+      emit(redactors ? redactors[stream].write(chunk) : chunk, stream);
+    },
+
+    flush() {
+      if (!listener || !redactors) {
+        return;
+      }
+      for (const stream of ['stdout', 'stderr'] as const) {
+        emit(redactors[stream].flush(), stream);
+      }
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+
+// How often to check whether signalled processes have exited
+const POLL_INTERVAL_MS = 100;
+
+type ProcessScope = 'group' | 'session';
+
+/**
+ * List the live processes in a process group or session
+ * Reads /proc, so it only finds processes on Linux; elsewhere a process group is
+ * reported by its ID while any member is alive, and sessions are not found.
+ * Zombies are skipped, since they have already exited.
+ */
+export function listProcesses(scope: ProcessScope, id: number): number[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync('/proc').filter((entry) => /^\d+$/.test(entry));
+  } catch {
+    return scope === 'group' && signalGroup(id, 0) ? [id] : [];
+  }
+
+  const pids: number[] = [];
+  for (const entry of entries) {
+    try {
+      // The command name is in parentheses and may contain spaces, so fields are
+      // counted from the last ")": state, parent PID, process group, session
+      const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+      const [state, , pgrp, session] = stat.substring(stat.lastIndexOf(')') + 2).split(' ');
+      if (state !== 'Z' && Number(scope === 'group' ? pgrp : session) === id) {
+        pids.push(Number(entry));
+      }
+    } catch {
+      // The process exited while the list was being read
+    }
+  }
+
+  return pids;
+}
+
+/**
+ * Find the first process below a process, breadth first, that leads its own
+ * process group. Interactive shells do, so this finds the shell that a wrapper
+ * such as bwrap or unshare started. Returns undefined when there is none or
+ * /proc cannot be read.
+ */
+export function findGroupLeader(pid: number): number | undefined {
+  const children = new Map<number, number[]>();
+  const groups = new Map<number, number>();
+  try {
+    for (const entry of fs.readdirSync('/proc').filter((name) => /^\d+$/.test(name))) {
+      try {
+        // Fields from the last ")": state, parent PID, process group
+        const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+        const [, ppid, pgrp] = stat.substring(stat.lastIndexOf(')') + 2).split(' ');
+        const siblings = children.get(Number(ppid)) || [];
+        siblings.push(Number(entry));
+        children.set(Number(ppid), siblings);
+        groups.set(Number(entry), Number(pgrp));
+      } catch {
+        // The process exited while the list was being read
+      }
+    }
+  } catch {
+    return undefined;
+  }
+
+  const pending = [...(children.get(pid) || [])];
+  while (pending.length > 0) {
+    const candidate = pending.shift()!;
+    if (groups.get(candidate) === candidate) {
+      return candidate;
+    }
+    pending.push(...(children.get(candidate) || []));
+  }
+  return undefined;
+}
+
+/**
+ * Get the process group in the foreground of a process's terminal
+ * Returns undefined when it cannot be read, e.g. outside Linux
+ */
+export function getForegroundGroup(pid: number): number | undefined {
+  try {
+    // Fields from the last ")": state, parent PID, process group, session, terminal, foreground group
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+    const tpgid = Number(stat.substring(stat.lastIndexOf(')') + 2).split(' ')[5]);
+    return tpgid > 0 ? tpgid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Send a signal to every process in a process group or session
+ * Returns false if there was no process to signal
+ */
+export function signalProcesses(
+  scope: ProcessScope,
+  id: number,
+  signal: NodeJS.Signals | 0
+): boolean {
+  if (scope === 'group') {
+    return signalGroup(id, signal);
+  }
+
+  let signalled = false;
+  for (const pid of listProcesses(scope, id)) {
+    try {
+      process.kill(pid, signal);
+      signalled = true;
+    } catch {
+      // Already gone
+    }
+  }
+  return signalled;
+}
+
+/**
+ * Stop every process in a process group or session
+ * Sends SIGTERM, waits up to the grace period for the processes to exit, then
+ * sends SIGKILL to any that are left. Returns the number of processes that were
+ * running when termination started.
+ */
+export async function terminateProcesses(
+  scope: ProcessScope,
+  id: number,
+  graceSeconds: number
+): Promise<number> {
+  const running = listProcesses(scope, id).length;
+  if (running === 0 || !signalProcesses(scope, id, 'SIGTERM')) {
+    return running;
+  }
+
+  const deadline = Date.now() + graceSeconds * 1000;
+  while (Date.now() < deadline && listProcesses(scope, id).length > 0) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  if (listProcesses(scope, id).length > 0) {
+    signalProcesses(scope, id, 'SIGKILL');
+  }
+
+  return running;
+}
+
+/**
+ * Signal a process group, returning false if it has no members
+ */
+function signalGroup(pgid: number, signal: NodeJS.Signals | 0): boolean {
+  try {
+    process.kill(-pgid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,140 @@
+import { RedactionCounts } from '../types/index.js';
+
+// Characters held back while waiting for the end of a line or private key, at most
+const MAX_HELD_OUTPUT = 64 * 1024;
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/g;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+
+export interface StreamRedactor {
+  write(chunk: string): string;
+  flush(): string;
+}
+
+interface SecretDetector {
+  kind: string;
+  pattern: RegExp;
+  // Builds the replacement from the match; defaults to replacing the whole match
+  replace?: (marker: string, ...groups: string[]) => string;
+}
+
+// Built-in detectors, most specific first so that a value is only counted once
+const BUILT_IN_DETECTORS: SecretDetector[] = [
+  {
+    kind: 'private-key',
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/g,
+  },
+  {
+    kind: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    kind: 'aws-secret-key',
+    pattern: /\b(aws_secret_access_key\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}\b/gi,
+    replace: (marker, prefix) => `${prefix}${marker}`,
+  },
+  {
+    kind: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  {
+    kind: 'slack-token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+  },
+  {
+    kind: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g,
+  },
+  {
+    kind: 'password-assignment',
+    pattern:
+      /\b([A-Za-z0-9_.-]*(?:PASSWORD|PASSWD|PASSPHRASE|SECRET|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY)[A-Za-z0-9_.-]*\s*[=:]\s*)(?!\[REDACTED)("[^"\n]+"|'[^'\n]+'|[^\s"'\n]+)/gi,
+    replace: (marker, prefix) => `${prefix}${marker}`,
+  },
+];
+
+/**
+ * Replace secrets in text with "[REDACTED:<kind>]" markers
+ * Built-in detectors cover cloud and chat tokens, JWTs, private keys and
+ * PASSWORD=/TOKEN= style assignments; extra regexes are reported as "custom".
+ * Returns the redacted text and the number of redactions of each kind.
+ */
+export function redactSecrets(
+  text: string,
+  customPatterns: string[] = []
+): { text: string; redactions: RedactionCounts } {
+  const redactions: RedactionCounts = {};
+
+  const detectors: SecretDetector[] = [
+    ...BUILT_IN_DETECTORS,
+    ...customPatterns.map((pattern) => ({ kind: 'custom', pattern: new RegExp(pattern, 'g') })),
+  ];
+
+  let result = text;
+  for (const detector of detectors) {
+    const marker = `[REDACTED:${detector.kind}]`;
+    result = result.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+      // An empty match (from a user-supplied pattern) has nothing to redact
+      if (!match) {
+        return match;
+      }
+      redactions[detector.kind] = (redactions[detector.kind] || 0) + 1;
+      return detector.replace ? detector.replace(marker, ...(groups as string[])) : marker;
+    });
+  }
+
+  return { text: result, redactions };
+}
+
+/**
+ * Find where the first private key block without its END line starts
+ * Returns the index of the start of its BEGIN line, or undefined if every block ends
+ */
+function findOpenPrivateKey(text: string): number | undefined {
+  for (const match of text.matchAll(PRIVATE_KEY_BEGIN)) {
+    if (!PRIVATE_KEY_END.test(text.substring(match.index! + match[0].length))) {
+      return Math.max(text.lastIndexOf('\n', match.index!), text.lastIndexOf('\r', match.index!)) + 1;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Redact secrets from output that arrives in chunks
+ * A secret may be split across chunks, so write only returns whole lines, ending in
+ * "\n" or "\r", redacted, and holds back a private key block from its BEGIN line
+ * until its END line. The rest is held back until it is complete, more than
+ * MAX_HELD_OUTPUT characters are held, or flush is called.
+ */
+export function createStreamRedactor(customPatterns: string[] = []): StreamRedactor {
+  let held = '';
+
+  const release = (end: number): string => {
+    const text = held.substring(0, end);
+    held = held.substring(end);
+    return text ? redactSecrets(text, customPatterns).text : '';
+  };
+
+  return {
+    write(chunk) {
+      held += chunk;
+      let end = Math.max(held.lastIndexOf('\n'), held.lastIndexOf('\r')) + 1;
+      end = findOpenPrivateKey(held.substring(0, end)) ?? end;
+      return release(held.length - end > MAX_HELD_OUTPUT ? held.length : end);
+    },
+
+    flush() {
+      return release(held.length);
+    },
+  };
+}
+
+/**
+ * Describe redaction counts for a human reader, e.g. "jwt x1, github-token x2"
+ */
+export function describeRedactions(redactions: RedactionCounts): string {
+  return Object.entries(redactions)
+    .map(([kind, count]) => `${kind} x${count}`)
+    .join(', ');
+}
@@ -0,0 +1,156 @@
+import { MCPConfig, ResourceLimits } from '../types/index.js';
+import { listSimpleCommands, parseShellCommand } from './shell-parser.js';
+import { getCommandPolicy } from './validator.js';
+
+type ResourceLimitKind = keyof ResourceLimits;
+
+export const RESOURCE_LIMIT_KINDS: ResourceLimitKind[] = [
+  'cpuTime',
+  'addressSpace',
+  'fileSize',
+  'openFiles',
+  'processes',
+];
+
+// Exit statuses bash reports for a child killed by SIGXCPU (24) and SIGXFSZ (25)
+const SIGXCPU_STATUS = 128 + 24;
+const SIGXFSZ_STATUS = 128 + 25;
+
+// Messages programs print when a call fails because of a limit
+const LIMIT_MESSAGES: Partial<Record<ResourceLimitKind, RegExp>> = {
+  addressSpace: /Cannot allocate memory|out of memory|MemoryError|bad_alloc/i,
+  fileSize: /File size limit exceeded/i,
+  openFiles: /Too many open files/i,
+  processes: /fork: (retry: )?Resource temporarily unavailable/i,
+};
+
+/**
+ * Work out the limits for a command line
+ * Each command gets the security.resourceLimits defaults, overridden by its policy's
+ * resourceProfile and then its own resourceLimits. All commands in a line share one
+ * shell, so the line gets the lowest value of each limit.
+ */
+export function getResourceLimits(command: string, config: MCPConfig): ResourceLimits {
+  const defaults = config.security.resourceLimits || {};
+
+  let perCommand: ResourceLimits[];
+  try {
+    perCommand = listSimpleCommands(parseShellCommand(command)).map((cmd) => {
+      const policy = cmd.name ? getCommandPolicy(cmd.name.value, config) : undefined;
+      const profile = policy?.resourceProfile
+        ? config.resourceProfiles?.[policy.resourceProfile]
+        : undefined;
+      return { ...defaults, ...profile, ...policy?.resourceLimits };
+    });
+  } catch {
+    perCommand = [];
+  }
+
+  if (perCommand.length === 0) {
+    return { ...defaults };
+  }
+
+  const limits: ResourceLimits = {};
+  for (const kind of RESOURCE_LIMIT_KINDS) {
+    const values = perCommand
+      .map((l) => l[kind])
+      .filter((v): v is number => v !== undefined);
+    if (values.length > 0) {
+      limits[kind] = Math.min(...values);
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Build the ulimit command that applies the limits in bash
+ * Returns an empty string when there is nothing to apply. The CPU soft limit is one
+ * second below the hard limit, so the command receives SIGXCPU (which can be
+ * reported) rather than SIGKILL.
+ */
+export function buildUlimitCommand(limits: ResourceLimits): string {
+  if (process.platform === 'win32') {
+    return '';
+  }
+
+  const flags: string[] = [];
+  if (limits.cpuTime !== undefined) {
+    flags.push(`-t ${limits.cpuTime + 1}`);
+  }
+  if (limits.addressSpace !== undefined) {
+    flags.push(`-v ${limits.addressSpace * 1024}`);
+  }
+  if (limits.fileSize !== undefined) {
+    flags.push(`-f ${limits.fileSize * 1024}`);
+  }
+  if (limits.openFiles !== undefined) {
+    flags.push(`-n ${limits.openFiles}`);
+  }
+  if (limits.processes !== undefined) {
+    flags.push(`-u ${limits.processes}`);
+  }
+
+  if (flags.length === 0) {
+    return '';
+  }
+
+  const commands = [`ulimit ${flags.join(' ')}`];
+  if (limits.cpuTime !== undefined) {
+    commands.push(`ulimit -S -t ${limits.cpuTime}`);
+  }
+
+  return `${commands.join(' && ')} || exit 126`;
+}
+
+/**
+ * Work out whether a failed command was stopped by one of its resource limits
+ * Signals and exit statuses are checked first; the other limits are recognised by
+ * the messages programs print when a system call fails.
+ */
+export function detectLimitExceeded(
+  limits: ResourceLimits,
+  exitCode: number | null,
+  signal: NodeJS.Signals | null,
+  output: string
+): ResourceLimitKind | undefined {
+  if (exitCode === 0) {
+    return undefined;
+  }
+
+  if (limits.cpuTime !== undefined && (signal === 'SIGXCPU' || exitCode === SIGXCPU_STATUS)) {
+    return 'cpuTime';
+  }
+
+  if (limits.fileSize !== undefined && (signal === 'SIGXFSZ' || exitCode === SIGXFSZ_STATUS)) {
+    return 'fileSize';
+  }
+
+  for (const kind of RESOURCE_LIMIT_KINDS) {
+    const message = LIMIT_MESSAGES[kind];
+    if (limits[kind] !== undefined && message && message.test(output)) {
+      return kind;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe an exceeded limit for a human reader, e.g. "CPU time limit of 10 seconds exceeded"
+ */
+export function describeLimitExceeded(kind: ResourceLimitKind, limits: ResourceLimits): string {
+  const value = limits[kind];
+  switch (kind) {
+    case 'cpuTime':
+      return `CPU time limit of ${value} seconds exceeded`;
+    case 'addressSpace':
+      return `Memory limit of ${value} MB exceeded`;
+    case 'fileSize':
+      return `File size limit of ${value} MB exceeded`;
+    case 'openFiles':
+      return `Open file limit of ${value} exceeded`;
+    case 'processes':
+      return `Process limit of ${value} exceeded`;
+  }
+}
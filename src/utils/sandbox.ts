@@ -0,0 +1,187 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { MCPConfig } from '../types/index.js';
+import { resolveRealPath } from './validator.js';
+
+// Read-only paths mounted by default so that the shell and common tools can run
+const DEFAULT_SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc'];
+
+// Directories the unshare backend can mount its new root on; the first one that
+// exists and does not overlap a mounted path is used
+const UNSHARE_ROOT_CANDIDATES = ['/mnt', '/media', '/srv', '/opt'];
+
+// Builds the new root inside the namespaces, pivots into it and unmounts the old
+// root, then runs the script without capabilities, so that it can neither remount
+// read-only directories nor reach the host's root again
+// Arguments: root, working directory, script, then "ro:<path>" / "rw:<path>" mounts
+const UNSHARE_MOUNT_SCRIPT = [
+  'root=$1; cwd=$2; script=$3; shift 3',
+  'mount -t tmpfs tmpfs "$root" || exit 126',
+  'for spec in "$@"; do',
+  '  mode=${spec%%:*}; dir=${spec#*:}',
+  '  [ -d "$dir" ] || continue',
+  '  mkdir -p "$root$dir" && mount --rbind "$dir" "$root$dir" || exit 126',
+  '  if [ "$mode" = ro ]; then mount -o remount,bind,ro "$root$dir" || exit 126; fi',
+  'done',
+  'mkdir -p "$root/proc" "$root/dev" "$root/.oldroot" || exit 126',
+  'mount -t proc proc "$root/proc" && mount --rbind /dev "$root/dev" || exit 126',
+  'cd "$root" && pivot_root . .oldroot && umount -l /.oldroot && rmdir /.oldroot || exit 126',
+  'cd "$cwd" || exit 126',
+  'exec setpriv --no-new-privs --inh-caps=-all --bounding-set=-all -- /bin/bash -c "$script"',
+].join('\n');
+
+export interface SandboxCommand {
+  file: string;
+  args: string[];
+}
+
+interface SandboxMount {
+  path: string;
+  readOnly: boolean;
+}
+
+/**
+ * Find an executable on the PATH
+ */
+function findExecutable(name: string): string | undefined {
+  for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+    if (!dir) {
+      continue;
+    }
+    const candidate = path.join(dir, name);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Pick the sandbox backend to use
+ * Returns undefined when the configured backend is not installed
+ */
+export function detectSandboxBackend(config: MCPConfig): 'bwrap' | 'unshare' | undefined {
+  const backend = config.sandbox?.backend || 'auto';
+
+  if (backend !== 'unshare' && findExecutable('bwrap')) {
+    return 'bwrap';
+  }
+  if (backend !== 'bwrap' && findExecutable('unshare')) {
+    return 'unshare';
+  }
+
+  return undefined;
+}
+
+/**
+ * List the paths mounted in the sandbox, shallowest first
+ * System paths are always read-only; allowed directories are read-write unless
+ * they are in the read tier or listed in sandbox.readOnlyDirectories. A later mount
+ * hides what is mounted below it, so mounting nested directories after their
+ * parents lets the most specific directory decide, whatever the config order.
+ */
+function getSandboxMounts(config: MCPConfig): SandboxMount[] {
+  const readOnly = (config.sandbox?.readOnlyDirectories || []).map((dir) => resolveRealPath(dir));
+
+  const mounts: SandboxMount[] = (config.sandbox?.systemPaths || DEFAULT_SYSTEM_PATHS).map(
+    (systemPath) => ({ path: systemPath, readOnly: true })
+  );
+
+  for (const entry of config.allowedDirectories) {
+    const realDir = resolveRealPath(typeof entry === 'string' ? entry : entry.path);
+    const readTier = typeof entry !== 'string' && entry.access === 'read';
+    mounts.push({ path: realDir, readOnly: readTier || readOnly.includes(realDir) });
+  }
+
+  const depth = (mount: SandboxMount) => mount.path.split(path.sep).filter(Boolean).length;
+  return mounts.sort((a, b) => depth(a) - depth(b));
+}
+
+/**
+ * Check whether one path is the same as, or inside, another
+ */
+function isSameOrInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Build the command that runs a bash script inside the sandbox
+ * The script runs in new user, mount, PID, IPC and UTS namespaces (and a network
+ * namespace unless sandbox.network is true) that only contain the system paths and
+ * allowed directories. Throws if no backend is available, so that commands are never
+ * run unsandboxed by accident.
+ */
+export function buildSandboxCommand(script: string, cwd: string, config: MCPConfig): SandboxCommand {
+  const backend = detectSandboxBackend(config);
+  if (!backend) {
+    const wanted = config.sandbox?.backend || 'auto';
+    throw new Error(
+      `Sandbox is enabled but ${wanted === 'auto' ? 'neither bwrap nor unshare' : wanted} is available`
+    );
+  }
+
+  const network = config.sandbox?.network === true;
+  const mounts = getSandboxMounts(config);
+
+  if (backend === 'bwrap') {
+    return {
+      file: 'bwrap',
+      args: [
+        '--die-with-parent',
+        '--unshare-user',
+        '--unshare-pid',
+        '--unshare-ipc',
+        '--unshare-uts',
+        ...(network ? [] : ['--unshare-net']),
+        '--proc',
+        '/proc',
+        '--dev',
+        '/dev',
+        ...mounts.flatMap((m) => [m.readOnly ? '--ro-bind-try' : '--bind-try', m.path, m.path]),
+        '--chdir',
+        cwd,
+        'bash',
+        '-c',
+        script,
+      ],
+    };
+  }
+
+  const root = UNSHARE_ROOT_CANDIDATES.find(
+    (candidate) =>
+      fs.existsSync(candidate) &&
+      !mounts.some((m) => isSameOrInside(m.path, candidate) || isSameOrInside(candidate, m.path))
+  );
+  if (!root) {
+    throw new Error(
+      `Sandbox needs one of ${UNSHARE_ROOT_CANDIDATES.join(', ')} to exist outside the mounted paths`
+    );
+  }
+
+  return {
+    file: 'unshare',
+    args: [
+      '--user',
+      '--map-root-user',
+      '--mount',
+      '--pid',
+      '--fork',
+      '--ipc',
+      '--uts',
+      ...(network ? [] : ['--net']),
+      'bash',
+      '-c',
+      UNSHARE_MOUNT_SCRIPT,
+      'bash',
+      root,
+      cwd,
+      script,
+      ...mounts.map((m) => `${m.readOnly ? 'ro' : 'rw'}:${m.path}`),
+    ],
+  };
+}
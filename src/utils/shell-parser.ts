@@ -0,0 +1,774 @@
+import {
+  ShellNode,
+  ShellRedirection,
+  ShellSimpleCommand,
+  ShellSubstitution,
+  ShellWord,
+} from '../types/index.js';
+
+// Control and redirection operators, longest first so that matching is greedy
+const OPERATORS = [
+  '&>>',
+  '<<<',
+  '<<-',
+  '&&',
+  '||',
+  '|&',
+  ';;',
+  '&>',
+  '>>',
+  '>|',
+  '>&',
+  '<<',
+  '<&',
+  '<>',
+  '|',
+  '&',
+  ';',
+  '(',
+  ')',
+  '<',
+  '>',
+];
+
+const REDIRECTION_OPERATORS = new Set([
+  '&>>',
+  '<<<',
+  '<<-',
+  '&>',
+  '>>',
+  '>|',
+  '>&',
+  '<<',
+  '<&',
+  '<>',
+  '<',
+  '>',
+]);
+
+// Reserved words that start compound commands we do not parse
+const RESERVED_WORDS = new Set([
+  'if',
+  'then',
+  'else',
+  'elif',
+  'fi',
+  'case',
+  'esac',
+  'for',
+  'select',
+  'while',
+  'until',
+  'do',
+  'done',
+  'function',
+  'coproc',
+  'time',
+  '{',
+  '}',
+  '[[',
+  ']]',
+]);
+
+// Characters that end an unquoted word
+const METACHARACTERS = ' \t\n|&;()<>';
+
+const FD_PATTERN = /\d+(?=[<>])/y;
+const NAME_PATTERN = /[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-]/y;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/;
+
+// Arithmetic made only of numbers and operators. A variable in arithmetic is
+// evaluated as an expression itself, so a value like "a[$(cmd)]" runs cmd.
+const PLAIN_ARITHMETIC = /^[\d\s+\-*/%<>=!&|^~?:,()]*$/;
+
+// Expansions that evaluate a variable's value as code: "$[...]" arithmetic, array
+// subscripts and substring offsets (both arithmetic), indirection and "@P"
+const ARITHMETIC_BRACKET_PATTERN = /\$\[([^\]]*)\]/g;
+const SUBSCRIPT_PATTERN = /\$\{[#!]?[A-Za-z_][A-Za-z0-9_]*\[([^\]]*)\]/g;
+const SUBSTRING_PATTERN =
+  /\$\{(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])(?:\[[^\]]*\])?:(?![-=?+])([^}]*)\}/g;
+const INDIRECTION_PATTERN = /\$\{![A-Za-z_][A-Za-z0-9_]*(?!\[[@*]\]\}|[@*]\})/;
+const PROMPT_TRANSFORM_PATTERN = /\$\{[^}]*@P\}/;
+
+// Unquoted "{a,b}" or "{x..y}", which brace expansion turns into several words
+const BRACE_EXPANSION_PATTERN = /\{[^{}]*(,|\.\.)[^{}]*\}/;
+
+// Unquoted "*", "?" or "[...]", which pathname expansion matches against files
+const GLOB_PATTERN = /[*?]|\[[^\]]*\]/;
+
+/**
+ * Find an expansion in text that evaluates a variable's value as code
+ * Returns the expansion, or undefined if there is none
+ */
+function findEvaluatedExpansion(text: string): string | undefined {
+  for (const match of text.matchAll(ARITHMETIC_BRACKET_PATTERN)) {
+    if (!PLAIN_ARITHMETIC.test(match[1])) {
+      return match[0];
+    }
+  }
+  for (const match of text.matchAll(SUBSCRIPT_PATTERN)) {
+    if (!/^(\d+|[@*])$/.test(match[1])) {
+      return match[0];
+    }
+  }
+  for (const match of text.matchAll(SUBSTRING_PATTERN)) {
+    if (!PLAIN_ARITHMETIC.test(match[1])) {
+      return match[0];
+    }
+  }
+  return text.match(INDIRECTION_PATTERN)?.[0] ?? text.match(PROMPT_TRANSFORM_PATTERN)?.[0];
+}
+
+interface PendingHeredoc {
+  redirection: ShellRedirection;
+  delimiter: string;
+  stripTabs: boolean;
+  expand: boolean;
+}
+
+/**
+ * Recursive descent parser for the subset of bash grammar we validate:
+ * simple commands, pipelines, lists, subshells, redirections, here-documents,
+ * quoting and parameter, arithmetic, command and process substitution.
+ * Compound commands (if, for, while, case, functions, groups) are rejected.
+ */
+class ShellParser {
+  private pos = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(private readonly source: string) {}
+
+  public parse(): ShellNode {
+    const node = this.parseList(null);
+
+    if (!this.atEnd()) {
+      throw new Error(`Unexpected token "${this.peekOperator() || this.source[this.pos]}"`);
+    }
+
+    // A here-document at the very end of the input has an empty body
+    for (const pending of this.pendingHeredocs) {
+      pending.redirection.heredoc = '';
+    }
+    this.pendingHeredocs = [];
+
+    return node;
+  }
+
+  private parseList(closer: ')' | null): ShellNode {
+    const commands: ShellNode[] = [];
+    const operators: string[] = [];
+
+    for (;;) {
+      this.skipLinebreaks();
+      if (this.atEnd() || (closer && this.peekOperator() === closer)) {
+        break;
+      }
+
+      commands.push(this.parsePipeline());
+      this.skipBlanks();
+
+      const op = this.peekOperator();
+      if (op === '&&' || op === '||') {
+        this.pos += op.length;
+        operators.push(op);
+        this.skipLinebreaks();
+        if (this.atEnd() || (closer && this.peekOperator() === closer)) {
+          throw new Error(`Expected a command after "${op}"`);
+        }
+        continue;
+      }
+
+      let separator: string;
+      if (op === ';' || op === '&') {
+        this.pos += 1;
+        separator = op;
+      } else if (this.peekChar() === '\n') {
+        separator = ';';
+      } else {
+        break;
+      }
+
+      // A trailing ";" is a no-op, but a trailing "&" still backgrounds the command
+      this.skipLinebreaks();
+      if (this.atEnd() || (closer && this.peekOperator() === closer)) {
+        if (separator === '&') {
+          operators.push(separator);
+        }
+        break;
+      }
+      operators.push(separator);
+    }
+
+    if (commands.length === 1 && operators.length === 0) {
+      return commands[0];
+    }
+
+    return { type: 'list', commands, operators };
+  }
+
+  private parsePipeline(): ShellNode {
+    this.skipBlanks();
+
+    let negated = false;
+    if (this.peekChar() === '!' && /^[ \t\n]?$/.test(this.source.charAt(this.pos + 1))) {
+      negated = true;
+      this.pos += 1;
+    }
+
+    const commands = [this.parseCommand()];
+    const operators: string[] = [];
+
+    for (;;) {
+      this.skipBlanks();
+      const op = this.peekOperator();
+      if (op !== '|' && op !== '|&') {
+        break;
+      }
+      this.pos += op.length;
+      operators.push(op);
+      this.skipLinebreaks();
+      commands.push(this.parseCommand());
+    }
+
+    if (commands.length === 1 && !negated) {
+      return commands[0];
+    }
+
+    return { type: 'pipeline', negated, commands, operators };
+  }
+
+  private parseCommand(): ShellNode {
+    this.skipBlanks();
+
+    // "((" starts an arithmetic command, which evaluates variables as code
+    if (this.source.startsWith('((', this.pos)) {
+      throw new Error('Unsupported shell syntax: "(("');
+    }
+
+    if (this.peekOperator() === '(') {
+      this.pos += 1;
+      const body = this.parseList(')');
+      this.expect(')', 'Unterminated subshell');
+
+      const redirections: ShellRedirection[] = [];
+      for (;;) {
+        this.skipBlanks();
+        const redirection = this.parseRedirection();
+        if (!redirection) {
+          break;
+        }
+        redirections.push(redirection);
+      }
+
+      return { type: 'subshell', body, redirections };
+    }
+
+    const command: ShellSimpleCommand = {
+      type: 'command',
+      assignments: [],
+      args: [],
+      redirections: [],
+    };
+
+    for (;;) {
+      this.skipBlanks();
+      if (this.atEnd() || this.peekChar() === '\n') {
+        break;
+      }
+
+      const redirection = this.parseRedirection();
+      if (redirection) {
+        command.redirections.push(redirection);
+        continue;
+      }
+
+      if (this.peekOperator() && !this.atProcessSubstitution()) {
+        break;
+      }
+
+      const word = this.readWord();
+      if (!command.name && ASSIGNMENT_PATTERN.test(word.raw)) {
+        command.assignments.push(word);
+      } else if (!command.name) {
+        if (!word.quoted && RESERVED_WORDS.has(word.value)) {
+          throw new Error(`Unsupported shell syntax: "${word.value}"`);
+        }
+        command.name = word;
+      } else {
+        command.args.push(word);
+      }
+    }
+
+    if (!command.name && command.assignments.length === 0 && command.redirections.length === 0) {
+      const op = this.peekOperator();
+      throw new Error(op ? `Unexpected token "${op}"` : 'Expected a command');
+    }
+
+    return command;
+  }
+
+  private parseRedirection(): ShellRedirection | undefined {
+    const start = this.pos;
+
+    let fd: number | undefined;
+    FD_PATTERN.lastIndex = this.pos;
+    const fdMatch = FD_PATTERN.exec(this.source);
+    if (fdMatch) {
+      fd = parseInt(fdMatch[0], 10);
+      this.pos += fdMatch[0].length;
+    }
+
+    const operator = this.peekOperator();
+    if (!operator || !REDIRECTION_OPERATORS.has(operator) || this.atProcessSubstitution()) {
+      this.pos = start;
+      return undefined;
+    }
+    this.pos += operator.length;
+
+    this.skipBlanks();
+    if (
+      this.atEnd() ||
+      this.peekChar() === '\n' ||
+      (this.peekOperator() && !this.atProcessSubstitution())
+    ) {
+      throw new Error(`Expected a redirection target after "${operator}"`);
+    }
+
+    const redirection: ShellRedirection = { operator, target: this.readWord() };
+    if (fd !== undefined) {
+      redirection.fd = fd;
+    }
+
+    if (operator === '<<' || operator === '<<-') {
+      this.pendingHeredocs.push({
+        redirection,
+        delimiter: redirection.target.value,
+        stripTabs: operator === '<<-',
+        expand: !redirection.target.quoted,
+      });
+    }
+
+    return redirection;
+  }
+
+  private readWord(): ShellWord {
+    const start = this.pos;
+    const word: ShellWord = {
+      raw: '',
+      value: '',
+      quoted: false,
+      expanded: false,
+      substitutions: [],
+    };
+    // The word's unquoted characters, with a space standing in for everything else
+    let unquoted = '';
+
+    if (this.atProcessSubstitution()) {
+      const kind = this.source.slice(this.pos, this.pos + 2) as '<(' | '>(';
+      this.pos += 2;
+      this.addSubstitution(word, kind, this.parseSubstitutionBody(), start);
+    }
+
+    while (!this.atEnd()) {
+      const ch = this.source[this.pos];
+
+      if (METACHARACTERS.includes(ch)) {
+        break;
+      }
+      unquoted += ch === '\\' || ch === "'" || ch === '"' || ch === '$' || ch === '`' ? ' ' : ch;
+
+      if (ch === '\\') {
+        const next = this.source[this.pos + 1];
+        if (next === undefined) {
+          word.value += ch;
+          this.pos += 1;
+        } else if (next === '\n') {
+          this.pos += 2;
+        } else {
+          word.value += next;
+          word.quoted = true;
+          this.pos += 2;
+        }
+      } else if (ch === "'") {
+        const end = this.source.indexOf("'", this.pos + 1);
+        if (end === -1) {
+          throw new Error('Unterminated single quote');
+        }
+        word.value += this.source.slice(this.pos + 1, end);
+        word.quoted = true;
+        this.pos = end + 1;
+      } else if (ch === '"') {
+        this.readDoubleQuoted(word);
+      } else if (ch === '$') {
+        this.readDollar(word, false);
+      } else if (ch === '`') {
+        this.readBackquote(word);
+      } else {
+        word.value += ch;
+        this.pos += 1;
+      }
+    }
+
+    if (this.pos === start) {
+      throw new Error(`Unexpected character "${this.source[this.pos]}"`);
+    }
+
+    if (BRACE_EXPANSION_PATTERN.test(unquoted) || GLOB_PATTERN.test(unquoted)) {
+      word.expanded = true;
+    }
+
+    word.raw = this.source.slice(start, this.pos);
+    return word;
+  }
+
+  private readDoubleQuoted(word: ShellWord): void {
+    word.quoted = true;
+    this.pos += 1;
+
+    for (;;) {
+      if (this.atEnd()) {
+        throw new Error('Unterminated double quote');
+      }
+
+      const ch = this.source[this.pos];
+      if (ch === '"') {
+        this.pos += 1;
+        return;
+      }
+
+      if (ch === '\\') {
+        const next = this.source[this.pos + 1];
+        if (next === '\n') {
+          this.pos += 2;
+        } else if (next !== undefined && '$`"\\'.includes(next)) {
+          word.value += next;
+          this.pos += 2;
+        } else {
+          word.value += ch;
+          this.pos += 1;
+        }
+      } else if (ch === '$') {
+        this.readDollar(word, true);
+      } else if (ch === '`') {
+        this.readBackquote(word);
+      } else {
+        word.value += ch;
+        this.pos += 1;
+      }
+    }
+  }
+
+  private readDollar(word: ShellWord, inDoubleQuotes: boolean): void {
+    const start = this.pos;
+    const next = this.source[this.pos + 1];
+
+    if (next === "'" && !inDoubleQuotes) {
+      // ANSI-C quoting: keep the escapes as written
+      let end = this.pos + 2;
+      while (end < this.source.length && this.source[end] !== "'") {
+        end += this.source[end] === '\\' ? 2 : 1;
+      }
+      if (end >= this.source.length) {
+        throw new Error('Unterminated single quote');
+      }
+      word.value += this.source.slice(this.pos + 2, end);
+      word.quoted = true;
+      this.pos = end + 1;
+      return;
+    }
+
+    if (next === '(' && this.source[this.pos + 2] === '(') {
+      const end = this.findClosing(this.pos + 1, '(', ')', 'Unterminated arithmetic expansion');
+      const expression = this.source.slice(start + 3, end - 1);
+      if (!PLAIN_ARITHMETIC.test(expression)) {
+        throw new Error(`Unsupported arithmetic on variables in "${this.source.slice(start, end + 1)}"`);
+      }
+      this.addExpansion(word, start, end + 1);
+      return;
+    }
+
+    if (next === '[') {
+      // Old-style arithmetic expansion
+      const end = this.findClosing(this.pos + 1, '[', ']', 'Unterminated arithmetic expansion');
+      this.addExpansion(word, start, end + 1);
+      return;
+    }
+
+    if (next === '(') {
+      this.pos += 2;
+      this.addSubstitution(word, '$(', this.parseSubstitutionBody(), start);
+      return;
+    }
+
+    if (next === '{') {
+      const end = this.findClosing(this.pos + 1, '{', '}', 'Unterminated parameter expansion');
+      this.addExpansion(word, start, end + 1);
+      return;
+    }
+
+    NAME_PATTERN.lastIndex = this.pos + 1;
+    const nameMatch = NAME_PATTERN.exec(this.source);
+    if (nameMatch) {
+      this.addExpansion(word, start, this.pos + 1 + nameMatch[0].length);
+      return;
+    }
+
+    // A lone "$" is literal
+    word.value += '$';
+    this.pos += 1;
+  }
+
+  private readBackquote(word: ShellWord): void {
+    const start = this.pos;
+    let inner = '';
+    let end = this.pos + 1;
+
+    for (;;) {
+      if (end >= this.source.length) {
+        throw new Error('Unterminated backquote');
+      }
+      const ch = this.source[end];
+      if (ch === '`') {
+        break;
+      }
+      if (ch === '\\' && '`$\\'.includes(this.source.charAt(end + 1))) {
+        inner += this.source[end + 1];
+        end += 2;
+      } else {
+        inner += ch;
+        end += 1;
+      }
+    }
+
+    this.pos = end + 1;
+    this.addSubstitution(word, '`', new ShellParser(inner).parse(), start);
+  }
+
+  private parseSubstitutionBody(): ShellNode {
+    const body = this.parseList(')');
+    this.expect(')', 'Unterminated command substitution');
+    return body;
+  }
+
+  private addSubstitution(
+    word: ShellWord,
+    kind: ShellSubstitution['kind'],
+    body: ShellNode,
+    start: number
+  ): void {
+    word.substitutions.push({ kind, body });
+    word.expanded = true;
+    word.value += this.source.slice(start, this.pos);
+  }
+
+  /**
+   * Record an expansion we do not parse further. Expansions that could hide a
+   * command substitution are rejected rather than guessed at, and so are quotes,
+   * which bash honours when it looks for the closing brace but findClosing does not.
+   */
+  private addExpansion(word: ShellWord, start: number, end: number): void {
+    const text = this.source.slice(start, end);
+    if (text.slice(1).includes('$(') || text.includes('`')) {
+      throw new Error(`Unsupported nested substitution in "${text}"`);
+    }
+    if (/['"]/.test(text)) {
+      throw new Error(`Unsupported quotes in "${text}"`);
+    }
+    const evaluated = findEvaluatedExpansion(text);
+    if (evaluated) {
+      throw new Error(`Unsupported evaluation of variables in "${evaluated}"`);
+    }
+    word.value += text;
+    word.expanded = true;
+    this.pos = end;
+  }
+
+  private findClosing(from: number, open: string, close: string, message: string): number {
+    let depth = 0;
+    for (let i = from; i < this.source.length; i++) {
+      const ch = this.source[i];
+      if (ch === '\\') {
+        i += 1;
+      } else if (ch === open) {
+        depth += 1;
+      } else if (ch === close) {
+        depth -= 1;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    throw new Error(message);
+  }
+
+  private readHeredocBodies(): void {
+    for (const pending of this.pendingHeredocs) {
+      let body = '';
+
+      while (!this.atEnd()) {
+        let end = this.source.indexOf('\n', this.pos);
+        if (end === -1) {
+          end = this.source.length;
+        }
+        let line = this.source.slice(this.pos, end);
+        this.pos = Math.min(end + 1, this.source.length);
+
+        if (pending.stripTabs) {
+          line = line.replace(/^\t+/, '');
+        }
+        if (line === pending.delimiter) {
+          break;
+        }
+        body += `${line}\n`;
+      }
+
+      if (pending.expand && (body.includes('$(') || body.includes('`'))) {
+        throw new Error('Command substitution in here-documents is not supported');
+      }
+      const evaluated = pending.expand ? findEvaluatedExpansion(body) : undefined;
+      if (evaluated) {
+        throw new Error(`Unsupported evaluation of variables in "${evaluated}"`);
+      }
+      pending.redirection.heredoc = body;
+    }
+
+    this.pendingHeredocs = [];
+  }
+
+  private skipBlanks(): void {
+    while (!this.atEnd()) {
+      const ch = this.source[this.pos];
+      if (ch === ' ' || ch === '\t') {
+        this.pos += 1;
+      } else if (ch === '\\' && this.source[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (ch === '#') {
+        const end = this.source.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.source.length : end;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private skipLinebreaks(): void {
+    for (;;) {
+      this.skipBlanks();
+      if (this.peekChar() !== '\n') {
+        return;
+      }
+      this.pos += 1;
+      this.readHeredocBodies();
+    }
+  }
+
+  private expect(token: string, message: string): void {
+    this.skipLinebreaks();
+    if (this.peekChar() !== token) {
+      throw new Error(message);
+    }
+    this.pos += token.length;
+  }
+
+  private peekOperator(): string | undefined {
+    return OPERATORS.find((op) => this.source.startsWith(op, this.pos));
+  }
+
+  private atProcessSubstitution(): boolean {
+    return this.source.startsWith('<(', this.pos) || this.source.startsWith('>(', this.pos);
+  }
+
+  private peekChar(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+}
+
+/**
+ * Parse a bash command line into a syntax tree.
+ * Throws an Error describing the problem if the line cannot be parsed.
+ */
+export function parseShellCommand(command: string): ShellNode {
+  return new ShellParser(command).parse();
+}
+
+/**
+ * All words of a simple command, including assignments and redirection targets
+ */
+export function getCommandWords(command: ShellSimpleCommand): ShellWord[] {
+  return [
+    ...command.assignments,
+    ...(command.name ? [command.name] : []),
+    ...command.args,
+    ...command.redirections.map((redirection) => redirection.target),
+  ];
+}
+
+/**
+ * Collect every simple command in a tree, including those nested in subshells
+ * and in command or process substitutions
+ */
+export function listSimpleCommands(node: ShellNode): ShellSimpleCommand[] {
+  const commands: ShellSimpleCommand[] = [];
+
+  const visitWords = (words: ShellWord[]) => {
+    for (const word of words) {
+      for (const substitution of word.substitutions) {
+        visit(substitution.body);
+      }
+    }
+  };
+
+  const visit = (current: ShellNode) => {
+    switch (current.type) {
+      case 'command':
+        commands.push(current);
+        visitWords(getCommandWords(current));
+        break;
+      case 'subshell':
+        visit(current.body);
+        visitWords(current.redirections.map((redirection) => redirection.target));
+        break;
+      case 'pipeline':
+      case 'list':
+        current.commands.forEach(visit);
+        break;
+    }
+  };
+
+  visit(node);
+  return commands;
+}
+
+/**
+ * Find the first construct that makes a command line more than a single simple
+ * command (an operator, redirection, subshell or substitution)
+ */
+export function findCompoundSyntax(node: ShellNode): string | undefined {
+  switch (node.type) {
+    case 'list':
+      if (node.operators.length > 0) {
+        return node.operators[0];
+      }
+      break;
+    case 'pipeline':
+      return node.negated ? '!' : node.operators[0];
+    case 'subshell':
+      return '(';
+    case 'command': {
+      if (node.redirections.length > 0) {
+        return node.redirections[0].operator;
+      }
+      const substituted = getCommandWords(node).find((word) => word.substitutions.length > 0);
+      if (substituted) {
+        return substituted.substitutions[0].kind;
+      }
+      break;
+    }
+  }
+
+  return undefined;
+}
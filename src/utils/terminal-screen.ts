@@ -0,0 +1,568 @@
+import {
+  ScreenColor,
+  ScreenSnapshot,
+  ScreenStyle,
+  ScreenStyleRun,
+  TerminalScreen,
+} from '../types/index.js';
+
+const TAB_WIDTH = 8;
+
+interface Cell {
+  char: string;
+  style: ScreenStyle;
+}
+
+interface SavedCursor {
+  row: number;
+  column: number;
+  style: ScreenStyle;
+}
+
+type ParserState = 'ground' | 'escape' | 'csi' | 'osc' | 'string' | 'designate';
+
+/**
+ * Create a virtual terminal screen that renders the output of a terminal program
+ * Understands the VT100/xterm control sequences that full-screen programs such as
+ * vim, less, top and htop use: cursor movement, erasing, scroll regions, inserting
+ * and deleting lines and characters, SGR attributes and the alternate screen.
+ * Sequences it does not know are skipped. Wide characters take one cell.
+ */
+export function createTerminalScreen(columns: number, rows: number): TerminalScreen {
+  const blankRow = (style: ScreenStyle = {}): Cell[] =>
+    Array.from({ length: columns }, () => ({ char: ' ', style }));
+  const blankScreen = (): Cell[][] => Array.from({ length: rows }, () => blankRow());
+
+  const main = blankScreen();
+  let screen = main;
+  let alternate = false;
+  let row = 0;
+  let column = 0;
+  let pendingWrap = false; // Set after printing in the last column, like a real terminal
+  let style: ScreenStyle = {};
+  let saved: SavedCursor | undefined;
+  let top = 0;
+  let bottom = rows - 1;
+  let cursorVisible = true;
+  let autowrap = true;
+  let title: string | undefined;
+
+  let state: ParserState = 'ground';
+  let sequence = ''; // Parameters of the CSI or OSC sequence being read
+
+  // Erased cells keep the current background colour
+  const eraseStyle = (): ScreenStyle =>
+    style.background !== undefined ? { background: style.background } : {};
+
+  const moveTo = (newRow: number, newColumn: number): void => {
+    row = Math.min(Math.max(newRow, 0), rows - 1);
+    column = Math.min(Math.max(newColumn, 0), columns - 1);
+    pendingWrap = false;
+  };
+
+  const eraseCells = (line: Cell[], from: number, to: number): void => {
+    const erased = eraseStyle();
+    for (let i = Math.max(from, 0); i < Math.min(to, columns); i++) {
+      line[i] = { char: ' ', style: erased };
+    }
+  };
+
+  const scrollUp = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      screen.splice(top, 1);
+      screen.splice(bottom, 0, blankRow(eraseStyle()));
+    }
+  };
+
+  const scrollDown = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      screen.splice(bottom, 1);
+      screen.splice(top, 0, blankRow(eraseStyle()));
+    }
+  };
+
+  const lineFeed = (): void => {
+    if (row === bottom) {
+      scrollUp(1);
+    } else if (row < rows - 1) {
+      row++;
+    }
+    pendingWrap = false;
+  };
+
+  const reverseIndex = (): void => {
+    if (row === top) {
+      scrollDown(1);
+    } else if (row > 0) {
+      row--;
+    }
+    pendingWrap = false;
+  };
+
+  const saveCursor = (): void => {
+    saved = { row, column, style };
+  };
+
+  const restoreCursor = (): void => {
+    if (saved) {
+      moveTo(saved.row, saved.column);
+      style = saved.style;
+    }
+  };
+
+  const switchScreen = (toAlternate: boolean): void => {
+    if (toAlternate === alternate) {
+      return;
+    }
+    alternate = toAlternate;
+    screen = toAlternate ? blankScreen() : main;
+  };
+
+  const reset = (): void => {
+    switchScreen(false);
+    main.splice(0, rows, ...blankScreen());
+    style = {};
+    saved = undefined;
+    top = 0;
+    bottom = rows - 1;
+    cursorVisible = true;
+    autowrap = true;
+    moveTo(0, 0);
+  };
+
+  const print = (char: string): void => {
+    if (pendingWrap && autowrap) {
+      column = 0;
+      lineFeed();
+    }
+    screen[row][column] = { char, style };
+    if (column < columns - 1) {
+      column++;
+    } else {
+      pendingWrap = autowrap;
+    }
+  };
+
+  const execute = (char: string): void => {
+    switch (char) {
+      case '\b':
+        moveTo(row, column - 1);
+        break;
+      case '\t':
+        moveTo(row, (Math.floor(column / TAB_WIDTH) + 1) * TAB_WIDTH);
+        break;
+      case '\n':
+      case '\v':
+      case '\f':
+        lineFeed();
+        break;
+      case '\r':
+        moveTo(row, 0);
+        break;
+    }
+  };
+
+  const setModes = (params: number[], enable: boolean): void => {
+    for (const mode of params) {
+      switch (mode) {
+        case 7:
+          autowrap = enable;
+          break;
+        case 25:
+          cursorVisible = enable;
+          break;
+        case 47:
+        case 1047:
+          switchScreen(enable);
+          break;
+        case 1049:
+          if (enable) {
+            saveCursor();
+            switchScreen(true);
+          } else {
+            switchScreen(false);
+            restoreCursor();
+          }
+          break;
+      }
+    }
+  };
+
+  const dispatchCsi = (final: string): void => {
+    const prefix = /^[?>=<]/.test(sequence) ? sequence[0] : '';
+    const intermediate = /[ -/]+$/.exec(sequence)?.[0] ?? '';
+    const body = sequence.substring(prefix.length, sequence.length - intermediate.length);
+    const params = body === '' ? [] : body.split(/[;:]/).map((value) => Number(value) || 0);
+    const count = Math.max(params[0] ?? 1, 1);
+
+    if (intermediate) {
+      return;
+    }
+    if (prefix === '?') {
+      if (final === 'h' || final === 'l') {
+        setModes(params, final === 'h');
+      }
+      return;
+    }
+    if (prefix) {
+      return;
+    }
+
+    const line = screen[row];
+    switch (final) {
+      case '@':
+        line.splice(column, 0, ...blankRow(eraseStyle()).slice(0, count));
+        line.length = columns;
+        break;
+      case 'A':
+        moveTo(row - count, column);
+        break;
+      case 'B':
+      case 'e':
+        moveTo(row + count, column);
+        break;
+      case 'C':
+      case 'a':
+        moveTo(row, column + count);
+        break;
+      case 'D':
+        moveTo(row, column - count);
+        break;
+      case 'E':
+        moveTo(row + count, 0);
+        break;
+      case 'F':
+        moveTo(row - count, 0);
+        break;
+      case 'G':
+      case '`':
+        moveTo(row, count - 1);
+        break;
+      case 'H':
+      case 'f':
+        moveTo(Math.max(params[0] ?? 1, 1) - 1, Math.max(params[1] ?? 1, 1) - 1);
+        break;
+      case 'd':
+        moveTo(count - 1, column);
+        break;
+      case 'J': {
+        const mode = params[0] ?? 0;
+        if (mode === 0) {
+          eraseCells(line, column, columns);
+          screen.slice(row + 1).forEach((below) => eraseCells(below, 0, columns));
+        } else if (mode === 1) {
+          screen.slice(0, row).forEach((above) => eraseCells(above, 0, columns));
+          eraseCells(line, 0, column + 1);
+        } else {
+          screen.forEach((any) => eraseCells(any, 0, columns));
+        }
+        break;
+      }
+      case 'K': {
+        const mode = params[0] ?? 0;
+        if (mode === 0) {
+          eraseCells(line, column, columns);
+        } else if (mode === 1) {
+          eraseCells(line, 0, column + 1);
+        } else {
+          eraseCells(line, 0, columns);
+        }
+        break;
+      }
+      case 'L':
+        if (row >= top && row <= bottom) {
+          for (let i = 0; i < Math.min(count, bottom - row + 1); i++) {
+            screen.splice(bottom, 1);
+            screen.splice(row, 0, blankRow(eraseStyle()));
+          }
+          moveTo(row, 0);
+        }
+        break;
+      case 'M':
+        if (row >= top && row <= bottom) {
+          for (let i = 0; i < Math.min(count, bottom - row + 1); i++) {
+            screen.splice(row, 1);
+            screen.splice(bottom, 0, blankRow(eraseStyle()));
+          }
+          moveTo(row, 0);
+        }
+        break;
+      case 'P':
+        line.splice(column, count);
+        line.push(...blankRow(eraseStyle()).slice(0, columns - line.length));
+        break;
+      case 'X':
+        eraseCells(line, column, column + count);
+        break;
+      case 'S':
+        scrollUp(count);
+        break;
+      case 'T':
+        scrollDown(count);
+        break;
+      case 'r': {
+        const newTop = Math.max(params[0] ?? 1, 1) - 1;
+        const newBottom = Math.min(params[1] || rows, rows) - 1;
+        if (newTop < newBottom) {
+          top = newTop;
+          bottom = newBottom;
+          moveTo(0, 0);
+        }
+        break;
+      }
+      case 's':
+        saveCursor();
+        break;
+      case 'u':
+        restoreCursor();
+        break;
+      case 'm':
+        style = applySgr(style, params);
+        break;
+    }
+  };
+
+  const dispatchEscape = (char: string): void => {
+    switch (char) {
+      case '[':
+        state = 'csi';
+        sequence = '';
+        return;
+      case ']':
+        state = 'osc';
+        sequence = '';
+        return;
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        state = 'string';
+        return;
+      case '(':
+      case ')':
+      case '*':
+      case '+':
+      case '-':
+      case '.':
+      case '/':
+      case '#':
+      case '%':
+        state = 'designate';
+        return;
+      case '7':
+        saveCursor();
+        break;
+      case '8':
+        restoreCursor();
+        break;
+      case 'D':
+        lineFeed();
+        break;
+      case 'E':
+        moveTo(row, 0);
+        lineFeed();
+        break;
+      case 'M':
+        reverseIndex();
+        break;
+      case 'c':
+        reset();
+        break;
+    }
+    state = 'ground';
+  };
+
+  // Set the window title from OSC 0 and 2; other OSC sequences are ignored
+  const dispatchOsc = (): void => {
+    const match = /^[02];(.*)$/s.exec(sequence);
+    if (match) {
+      title = match[1];
+    }
+  };
+
+  return {
+    write(data) {
+      for (const char of data) {
+        const code = char.codePointAt(0)!;
+
+        if (char === '\x1b') {
+          if (state === 'osc') {
+            dispatchOsc();
+          }
+          state = 'escape';
+          continue;
+        }
+        if (char === '\x18' || char === '\x1a') {
+          state = 'ground';
+          continue;
+        }
+
+        switch (state) {
+          case 'ground':
+            if (code < 0x20) {
+              execute(char);
+            } else if (code !== 0x7f) {
+              print(char);
+            }
+            break;
+          case 'escape':
+            dispatchEscape(char);
+            break;
+          case 'designate':
+            state = 'ground';
+            break;
+          case 'csi':
+            if (code < 0x20) {
+              execute(char);
+            } else if (code >= 0x40 && code <= 0x7e) {
+              state = 'ground';
+              dispatchCsi(char);
+            } else {
+              sequence += char;
+            }
+            break;
+          case 'osc':
+            if (char === '\x07') {
+              state = 'ground';
+              dispatchOsc();
+            } else {
+              sequence += char;
+            }
+            break;
+          case 'string':
+            if (char === '\x07') {
+              state = 'ground';
+            }
+            break;
+        }
+      }
+    },
+
+    snapshot(withStyles = false) {
+      const snapshot: ScreenSnapshot = {
+        columns,
+        rows,
+        lines: screen.map((line) => line.map((cell) => cell.char).join('').trimEnd()),
+        cursor: { row, column },
+        cursorVisible,
+        alternateScreen: alternate,
+        ...(title !== undefined && { title }),
+      };
+      if (withStyles) {
+        snapshot.styles = findStyleRuns(screen);
+      }
+      return snapshot;
+    },
+  };
+}
+
+/**
+ * Apply SGR (Select Graphic Rendition) parameters to a style
+ */
+function applySgr(current: ScreenStyle, params: number[]): ScreenStyle {
+  let style: ScreenStyle = { ...current };
+  const values = params.length > 0 ? params : [0];
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === 0) {
+      style = {};
+    } else if (value === 1) {
+      style.bold = true;
+    } else if (value === 2) {
+      style.dim = true;
+    } else if (value === 3) {
+      style.italic = true;
+    } else if (value === 4 || value === 21) {
+      style.underline = true;
+    } else if (value === 5 || value === 6) {
+      style.blink = true;
+    } else if (value === 7) {
+      style.inverse = true;
+    } else if (value === 8) {
+      style.hidden = true;
+    } else if (value === 9) {
+      style.strikethrough = true;
+    } else if (value === 22) {
+      delete style.bold;
+      delete style.dim;
+    } else if (value === 23) {
+      delete style.italic;
+    } else if (value === 24) {
+      delete style.underline;
+    } else if (value === 25) {
+      delete style.blink;
+    } else if (value === 27) {
+      delete style.inverse;
+    } else if (value === 28) {
+      delete style.hidden;
+    } else if (value === 29) {
+      delete style.strikethrough;
+    } else if (value >= 30 && value <= 37) {
+      style.foreground = value - 30;
+    } else if (value >= 40 && value <= 47) {
+      style.background = value - 40;
+    } else if (value >= 90 && value <= 97) {
+      style.foreground = value - 90 + 8;
+    } else if (value >= 100 && value <= 107) {
+      style.background = value - 100 + 8;
+    } else if (value === 39) {
+      delete style.foreground;
+    } else if (value === 49) {
+      delete style.background;
+    } else if (value === 38 || value === 48) {
+      const [color, used] = readExtendedColor(values, i + 1);
+      if (color !== undefined) {
+        style[value === 38 ? 'foreground' : 'background'] = color;
+      }
+      i += used;
+    }
+  }
+
+  return style;
+}
+
+/**
+ * Read a 256-colour (5;n) or true colour (2;r;g;b) value
+ * Returns the colour and the number of parameters it took
+ */
+function readExtendedColor(values: number[], index: number): [ScreenColor | undefined, number] {
+  if (values[index] === 5) {
+    return [values[index + 1], 2];
+  }
+  if (values[index] === 2) {
+    const hex = values
+      .slice(index + 1, index + 4)
+      .map((channel) => Math.min(channel, 255).toString(16).padStart(2, '0'))
+      .join('');
+    return [`#${hex.padEnd(6, '0')}`, 4];
+  }
+  return [undefined, 0];
+}
+
+/**
+ * List the runs of cells drawn with a style other than the default
+ */
+function findStyleRuns(screen: Cell[][]): ScreenStyleRun[] {
+  const runs: ScreenStyleRun[] = [];
+
+  screen.forEach((line, row) => {
+    let run: ScreenStyleRun | undefined;
+    let runKey = '';
+    line.forEach((cell, column) => {
+      const key = JSON.stringify(cell.style, Object.keys(cell.style).sort());
+      if (run && key === runKey) {
+        run.length++;
+        return;
+      }
+      run = undefined;
+      runKey = key;
+      if (key !== '{}') {
+        run = { row, column, length: 1, ...cell.style };
+        runs.push(run);
+      }
+    });
+  });
+
+  return runs;
+}
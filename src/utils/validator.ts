@@ -1,112 +1,1064 @@
+import os from 'os';
 import path from 'path';
-import { MCPConfig } from '../types/index.js';
+import fs from 'fs-extra';
+import {
+  CommandPolicy,
+  CompactionConfig,
+  CompactionReport,
+  DirectoryAccess,
+  MCPConfig,
+  RedactionCounts,
+  ShellNode,
+  ShellSimpleCommand,
+  ShellWord,
+} from '../types/index.js';
+import { compactOutput } from './compactor.js';
 import { logger } from './logger.js';
+import { describeRedactions, redactSecrets } from './redactor.js';
+import { findCompoundSyntax, listSimpleCommands, parseShellCommand } from './shell-parser.js';
+
+// Variables that change which program a command name resolves to, how the shell
+// starts, what it runs at every prompt, or where "cd" and "~" go
+export const PROTECTED_VARIABLES = [
+  'PATH',
+  'LD_PRELOAD',
+  'LD_LIBRARY_PATH',
+  'LD_AUDIT',
+  'BASH_ENV',
+  'ENV',
+  'IFS',
+  'PROMPT_COMMAND',
+  'PS0',
+  'PS1',
+  'PS2',
+  'PS3',
+  'PS4',
+  'SHELLOPTS',
+  'CDPATH',
+  'OLDPWD',
+  'HOME',
+];
+
+// Values an assignment-only command may set. A later arithmetic expansion or
+// prompt could evaluate other values, such as "a[$(cmd)]", as code.
+const PLAIN_ASSIGNMENT_VALUE = /^[\w .,:/@%+=~${}-]*$/;
+
+// Builtins whose "-v" option takes a variable name, where a subscript is evaluated
+const VARIABLE_OPTION_BUILTINS = ['test', '[', 'printf'];
+
+// Redirections whose target is not a file name
+const NON_FILE_REDIRECTIONS = ['<<', '<<-', '<<<'];
+
+// Directory access tiers, from least to most privileged
+const ACCESS_TIERS: DirectoryAccess[] = ['read', 'write', 'exec'];
+
+// Operands modified by common commands whose policy does not set writeArguments
+const DEFAULT_WRITE_ARGUMENTS: Record<string, NonNullable<CommandPolicy['writeArguments']>> = {
+  rm: 'all',
+  rmdir: 'all',
+  mv: 'all',
+  cp: 'last',
+  touch: 'all',
+  mkdir: 'all',
+  ln: 'last',
+  tee: 'all',
+};
+
+// Flags that define aliases for a call, such as "git -c alias.p=push p", so that a
+// denied subcommand could run under another name
+const ALIAS_FLAGS = ['-c', '--config-env'];
+
+// Commands whose "-t DIR" or "--target-directory=DIR" names their destination
+const TARGET_DIRECTORY_COMMANDS = ['cp', 'mv', 'ln', 'install'];
+
+// Options whose value names a file the command writes, by command
+const WRITE_OPTIONS: Record<string, string[]> = {
+  sort: ['-o', '--output'],
+  find: ['-fprint', '-fprint0', '-fprintf', '-fls'],
+};
+
+/**
+ * Find the allowedCommands entry for a command name
+ * Bare string entries are returned as a policy without restrictions
+ */
+export function getCommandPolicy(name: string, config: MCPConfig): CommandPolicy | undefined {
+  for (const entry of config.allowedCommands) {
+    if (typeof entry === 'string') {
+      if (entry === name) {
+        return { command: entry };
+      }
+    } else if (entry.command === name) {
+      return entry;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Expand a flag into the forms a policy may list: "--color=auto" becomes
+ * "--color", and a short option cluster like "-rf" becomes "-r" and "-f"
+ */
+function expandFlag(flag: string): { name: string; letters: string[] } {
+  const name = flag.split('=')[0];
+  const letters = /^-[^-]{2,}$/.test(name) ? name.slice(1).split('').map((c) => `-${c}`) : [];
+  return { name, letters };
+}
+
+/**
+ * Check the arguments of a command against its policy
+ * Returns the reason it is rejected, or undefined if it is allowed
+ */
+function checkCommandPolicy(command: ShellSimpleCommand, policy: CommandPolicy): string | undefined {
+  const rejected = (rule: keyof CommandPolicy, detail: string) =>
+    `Command "${policy.command}" rejected by ${rule} rule: ${detail}`;
+
+  const hasArgumentRules =
+    policy.allowedFlags !== undefined ||
+    policy.deniedFlags !== undefined ||
+    policy.argumentPatterns !== undefined ||
+    policy.deniedSubcommands !== undefined;
+
+  if (policy.maxArguments !== undefined && command.args.length > policy.maxArguments) {
+    return rejected(
+      'maxArguments',
+      `${command.args.length} arguments given, at most ${policy.maxArguments} allowed`
+    );
+  }
+
+  // Variables such as GIT_CONFIG_KEY_0 can define aliases too
+  if (policy.deniedSubcommands && command.assignments.length > 0) {
+    return rejected('deniedSubcommands', 'variable assignments are not allowed');
+  }
+
+  let endOfFlags = false;
+  let afterFlag = false; // The previous argument was a flag that may take the next one as its value
+  let subcommandFound = false;
+  for (const arg of command.args) {
+    // Expanded words are only known at run time, so they cannot be checked
+    if (hasArgumentRules && arg.expanded) {
+      return `Command "${policy.command}": argument ${arg.raw} cannot be checked against its policy`;
+    }
+
+    if (!endOfFlags && arg.value === '--') {
+      endOfFlags = true;
+      continue;
+    }
+
+    if (!endOfFlags && arg.value.startsWith('-') && arg.value !== '-') {
+      const { name, letters } = expandFlag(arg.value);
+      afterFlag = !arg.value.includes('=');
+
+      if (policy.deniedSubcommands && !subcommandFound) {
+        const alias = [name, ...letters].find((flag) => ALIAS_FLAGS.includes(flag));
+        if (alias) {
+          return rejected('deniedSubcommands', `flag "${alias}" could run a denied subcommand`);
+        }
+      }
+
+      if (policy.deniedFlags) {
+        const denied = [name, ...letters].find((flag) => policy.deniedFlags!.includes(flag));
+        if (denied) {
+          return rejected('deniedFlags', `flag "${denied}" is not allowed`);
+        }
+      }
+
+      if (policy.allowedFlags) {
+        const allowed =
+          policy.allowedFlags.includes(name) ||
+          (letters.length > 0 && letters.every((flag) => policy.allowedFlags!.includes(flag)));
+        if (!allowed) {
+          return rejected('allowedFlags', `flag "${arg.value}" is not in the allowed flags`);
+        }
+      }
+
+      continue;
+    }
+
+    // The subcommand is the first operand, unless that may be the value of the flag
+    // before it ("git -C dir push"), in which case the next operand is checked too
+    if (policy.deniedSubcommands && !subcommandFound) {
+      if (policy.deniedSubcommands.includes(arg.value)) {
+        return rejected('deniedSubcommands', `subcommand "${arg.value}" is not allowed`);
+      }
+      subcommandFound = !afterFlag;
+    }
+    afterFlag = false;
+
+    if (
+      policy.argumentPatterns &&
+      !policy.argumentPatterns.some((pattern) => new RegExp(`^(?:${pattern})$`).test(arg.value))
+    ) {
+      return rejected('argumentPatterns', `argument "${arg.value}" does not match any allowed pattern`);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Heuristic for operands that name files: absolute, home-relative or relative
+ * paths containing a separator, and "." or ".."
+ */
+function looksLikePath(value: string): boolean {
+  return value.includes('/') || value.startsWith('~') || value === '.' || value === '..';
+}
+
+/**
+ * Find the values a short flag may carry attached: the text after any of its
+ * leading letters, since "-o/x" and "-vo/x" cannot be told apart from "-ovo/x"
+ * without knowing which letters take a value
+ */
+function getAttachedValues(flag: string): string[] {
+  if (flag.startsWith('--')) {
+    return [];
+  }
+  const letters = flag.match(/^-[A-Za-z0-9]*/)![0].length;
+  return Array.from({ length: Math.max(letters - 1, 0) }, (_, i) => flag.slice(i + 2)).filter(
+    (value) => value !== ''
+  );
+}
+
+/**
+ * Collect the words of a command that name files according to its policy:
+ * selected operands, values attached to flags and redirection targets
+ */
+function getPathWords(command: ShellSimpleCommand, policy: CommandPolicy): ShellWord[] {
+  const mode = policy.pathArguments || 'auto';
+  const words: ShellWord[] = [];
+
+  if (mode !== 'none') {
+    let endOfFlags = false;
+    let position = 0;
+
+    for (const arg of command.args) {
+      if (!endOfFlags && arg.value === '--') {
+        endOfFlags = true;
+        continue;
+      }
+
+      if (!endOfFlags && arg.value.startsWith('-') && arg.value !== '-') {
+        const separator = arg.value.indexOf('=');
+        if (!Array.isArray(mode) && separator !== -1) {
+          const value = arg.value.slice(separator + 1);
+          if (mode === 'all' || looksLikePath(value)) {
+            words.push({ ...arg, value });
+          }
+        }
+        // Values attached to short flags, such as "-o/tmp/out" or "-f../patterns"
+        for (const value of getAttachedValues(arg.value)) {
+          if (looksLikePath(value)) {
+            words.push({ ...arg, value });
+          }
+        }
+        continue;
+      }
+
+      position += 1;
+      if (Array.isArray(mode) ? mode.includes(position) : mode === 'all' || looksLikePath(arg.value)) {
+        words.push(arg);
+      }
+    }
+  }
+
+  for (const redirection of command.redirections) {
+    if (NON_FILE_REDIRECTIONS.includes(redirection.operator)) {
+      continue;
+    }
+    // Duplicating a descriptor ("2>&1", "<&-") does not name a file
+    if (
+      (redirection.operator === '>&' || redirection.operator === '<&') &&
+      /^(\d+|-)$/.test(redirection.target.value)
+    ) {
+      continue;
+    }
+    words.push(redirection.target);
+  }
+
+  return words;
+}
+
+/**
+ * Collect the operands of a command: the arguments that are not flags
+ */
+function getOperands(command: ShellSimpleCommand): ShellWord[] {
+  const operands: ShellWord[] = [];
+  let endOfFlags = false;
+
+  for (const arg of command.args) {
+    if (!endOfFlags && arg.value === '--') {
+      endOfFlags = true;
+    } else if (endOfFlags || !arg.value.startsWith('-') || arg.value === '-') {
+      operands.push(arg);
+    }
+  }
+
+  return operands;
+}
+
+/**
+ * Find the values given to options of a command: "-o VALUE", "-oVALUE" or the
+ * last flag of a cluster ("-vo VALUE") for short options, "--name=VALUE",
+ * "--name VALUE" or an abbreviation of the name for long options, and
+ * "-name VALUE" for find-style options
+ */
+function getOptionValues(command: ShellSimpleCommand, options: string[]): ShellWord[] {
+  const values: ShellWord[] = [];
+
+  for (let i = 0; i < command.args.length; i++) {
+    const arg = command.args[i];
+    if (arg.value === '--') {
+      break;
+    }
+
+    for (const option of options) {
+      if (option.startsWith('--')) {
+        const [name, ...rest] = arg.value.split('=');
+        if (name.length >= 3 && name.startsWith('--') && option.startsWith(name)) {
+          values.push(rest.length > 0 ? { ...arg, value: rest.join('=') } : command.args[i + 1]);
+        }
+      } else if (option.length > 2) {
+        if (arg.value === option) {
+          values.push(command.args[i + 1]);
+        }
+      } else {
+        const short = arg.value.match(new RegExp(`^-(?!-)[A-Za-z]*?${option[1]}(.*)$`));
+        if (short) {
+          values.push(short[1] ? { ...arg, value: short[1] } : command.args[i + 1]);
+        }
+      }
+    }
+  }
+
+  return values.filter((value) => value !== undefined);
+}
+
+/**
+ * Find the destination directory given to cp, mv, ln or install with "-t DIR",
+ * "--target-directory=DIR" or an abbreviation of it
+ */
+function getTargetDirectory(command: ShellSimpleCommand): ShellWord | undefined {
+  if (!command.name || !TARGET_DIRECTORY_COMMANDS.includes(command.name.value)) {
+    return undefined;
+  }
+  return getOptionValues(command, ['-t', '--target-directory'])[0];
+}
+
+/**
+ * Collect the words of a command that name files it modifies: the operands
+ * selected by writeArguments (or the default for common commands such as rm and
+ * cp), the target directory of cp, mv and ln, output options such as "sort -o",
+ * and the targets of output redirections
+ */
+function getWriteTargets(command: ShellSimpleCommand, policy: CommandPolicy): ShellWord[] {
+  const mode = policy.writeArguments || DEFAULT_WRITE_ARGUMENTS[policy.command] || 'none';
+  const operands = getOperands(command);
+  const targetDirectory = mode === 'none' ? undefined : getTargetDirectory(command);
+
+  let words: ShellWord[] = [];
+  if (mode === 'all') {
+    words = operands;
+  } else if (mode === 'last') {
+    // With a target directory every operand is a source
+    words = targetDirectory ? [] : operands.slice(-1);
+  } else if (Array.isArray(mode)) {
+    words = operands.filter((_, index) => mode.includes(index + 1));
+  }
+  if (targetDirectory) {
+    words.push(targetDirectory);
+  }
+  words.push(...getOptionValues(command, WRITE_OPTIONS[policy.command] || []));
+
+  for (const redirection of command.redirections) {
+    if (!redirection.operator.includes('>') || NON_FILE_REDIRECTIONS.includes(redirection.operator)) {
+      continue;
+    }
+    if (redirection.operator === '>&' && /^(\d+|-)$/.test(redirection.target.value)) {
+      continue;
+    }
+    words.push(redirection.target);
+  }
+
+  return words;
+}
+
+/**
+ * Home directory of commands, which "~" expands to: the HOME override of the
+ * environment policy, or the server's own home directory
+ */
+function getHomeDirectory(config: MCPConfig): string {
+  return config.environment?.overrides?.HOME || process.env.HOME || os.homedir();
+}
+
+/**
+ * Resolve a path argument against the working directory, following symlinks
+ * Returns undefined when the path depends on run-time expansion
+ */
+function resolvePathArgument(word: ShellWord, cwd: string, config: MCPConfig): string | undefined {
+  if (word.expanded) {
+    return undefined;
+  }
+
+  let value = word.value;
+  if (!word.quoted && (value === '~' || value.startsWith('~/'))) {
+    value = `${getHomeDirectory(config)}${value.slice(1)}`;
+  } else if (!word.quoted && value.startsWith('~')) {
+    return undefined;
+  }
+
+  return resolveRealPath(value, cwd);
+}
+
+/**
+ * Check that every path argument of a command stays inside allowedDirectories
+ * Returns the reason it is rejected, or undefined if it is allowed
+ */
+function checkPathArguments(
+  command: ShellSimpleCommand,
+  policy: CommandPolicy,
+  cwd: string,
+  config: MCPConfig
+): string | undefined {
+  for (const word of getPathWords(command, policy)) {
+    const resolved = resolvePathArgument(word, cwd, config);
+    if (resolved === undefined) {
+      return `Path argument ${word.raw} cannot be checked against the allowed directories`;
+    }
+    if (!isDirectoryAllowed(resolved, config)) {
+      return `Path "${word.value}" is outside the allowed directories`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check that every file a command modifies is in a write-tier directory
+ * Returns the reason it is rejected, or undefined if it is allowed
+ */
+function checkWriteTargets(
+  command: ShellSimpleCommand,
+  policy: CommandPolicy,
+  cwd: string,
+  config: MCPConfig
+): string | undefined {
+  for (const word of getWriteTargets(command, policy)) {
+    const resolved = resolvePathArgument(word, cwd, config);
+    if (resolved === undefined) {
+      return `Write target ${word.raw} cannot be checked against the allowed directories`;
+    }
+    if (!hasDirectoryAccess(resolved, config, 'write')) {
+      return `Path "${word.value}" is not in a writable directory`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a single simple command against the allowed list
+ * Returns the reason it is rejected, or undefined if it is allowed
+ */
+function checkSimpleCommand(
+  command: ShellSimpleCommand,
+  config: MCPConfig,
+  cwd?: string
+): string | undefined {
+  for (const assignment of command.assignments) {
+    const name = assignment.raw.split(/\+?=|\[/)[0];
+    if (PROTECTED_VARIABLES.includes(name)) {
+      return `Assignment to ${name} is not allowed`;
+    }
+
+    // An array subscript is evaluated as arithmetic
+    const subscript = assignment.raw.match(/^[A-Za-z_][A-Za-z0-9_]*\[([^\]]*)\]/);
+    if (subscript && !/^\d+$/.test(subscript[1])) {
+      return `Assignment to ${subscript[0]} is not allowed: only numeric subscripts are`;
+    }
+
+    // An unquoted command substitution is checked as a command of its own
+    const value = assignment.value.slice(assignment.value.indexOf('=') + 1);
+    const substituted = !assignment.quoted && assignment.substitutions.length > 0;
+    if (!command.name && !substituted && !PLAIN_ASSIGNMENT_VALUE.test(value)) {
+      return `Assignment ${assignment.raw} is not allowed: only plain text values are`;
+    }
+  }
+
+  if (!command.name) {
+    return undefined;
+  }
+
+  if (VARIABLE_OPTION_BUILTINS.includes(command.name.value)) {
+    const index = command.args.findIndex((arg) => arg.value === '-v');
+    const operand = index === -1 ? undefined : command.args[index + 1];
+    if (operand && operand.value.includes('[')) {
+      return `Command "${command.name.value}": subscripted variable ${operand.raw} is not allowed`;
+    }
+  }
+
+  if (command.name.expanded) {
+    return `Command name must be a literal word: ${command.name.raw}`;
+  }
+
+  const policy = getCommandPolicy(command.name.value, config);
+  if (!policy) {
+    // Programs stored in an exec-tier directory may be run by path
+    if (cwd !== undefined && command.name.value.includes('/')) {
+      const program = resolvePathArgument(command.name, cwd, config);
+      if (program !== undefined && hasDirectoryAccess(program, config, 'exec')) {
+        return undefined;
+      }
+    }
+    return `Command "${command.name.value}" is not in the allowed list`;
+  }
+
+  return checkCommandPolicy(command, policy);
+}
+
+/**
+ * Check every simple command in a parsed command line, including those in
+ * pipelines, lists, subshells and substitutions. When a working directory is
+ * given, path arguments are confined to allowedDirectories and modified files
+ * to write-tier directories; "cd" moves the directory later commands are
+ * resolved against.
+ */
+function checkCommandTree(tree: ShellNode, config: MCPConfig, cwd?: string): string | undefined {
+  const commands = listSimpleCommands(tree);
+  if (commands.length === 0) {
+    return 'Command cannot be empty';
+  }
+
+  let currentDir = cwd;
+  for (const command of commands) {
+    const reason = checkSimpleCommand(command, config, currentDir);
+    if (reason) {
+      return reason;
+    }
+
+    if (currentDir === undefined || !command.name) {
+      continue;
+    }
+
+    const policy = getCommandPolicy(command.name.value, config) || { command: command.name.value };
+    const pathReason =
+      checkPathArguments(command, policy, currentDir, config) ||
+      checkWriteTargets(command, policy, currentDir, config);
+    if (pathReason) {
+      return pathReason;
+    }
+
+    if (command.name.value === 'cd') {
+      // "cd -" returns to a directory we do not track
+      const target = command.args.find(
+        (arg) => arg.value === '-' || (arg.value !== '--' && !arg.value.startsWith('-'))
+      );
+      let resolved: string | undefined = getHomeDirectory(config);
+      if (target) {
+        resolved = target.value === '-' ? undefined : resolvePathArgument(target, currentDir, config);
+      }
+      if (resolved === undefined || !isDirectoryAllowed(resolved, config)) {
+        return `Directory change to ${target ? target.raw : '~'} is outside the allowed directories`;
+      }
+      currentDir = resolved;
+    }
+  }
+
+  return undefined;
+}
 
 /**
  * Validates if a command is allowed based on the configuration
+ * Every simple command in a compound command line must be in the allowed list
  */
 export function isCommandAllowed(command: string, config: MCPConfig): boolean {
   if (!command || typeof command !== 'string') {
     return false;
   }
 
-  // Extract the base command (e.g., "ls" from "ls -la")
-  const baseCommand = command.trim().split(' ')[0];
+  try {
+    return checkCommandTree(parseShellCommand(command), config) === undefined;
+  } catch {
+    return false;
+  }
+}
 
-  // Check if the base command is in the allowed list
-  const isAllowed = config.allowedCommands.includes(baseCommand);
+/**
+ * Resolve a path to its canonical location, following symlinks
+ * Relative paths are resolved against the base directory. For paths that do not
+ * exist yet, the nearest existing ancestor is resolved and the remaining
+ * components are appended, so "..", "." and symlinks behave as the kernel
+ * would resolve them.
+ */
+export function resolveRealPath(target: string, base: string = process.cwd()): string {
+  // Join without normalizing: "link/.." must be resolved through the link
+  let current = path.isAbsolute(target) ? target : `${base}${path.sep}${target}`;
+  const missing: string[] = [];
 
-  if (!isAllowed) {
-    // logger.warn(`Command "${baseCommand}" is not in the allowed list`);
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync.native(current), ...missing);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return path.resolve(current, ...missing);
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Whether a real path is one of the given directories or inside one of them
+ */
+function isWithinDirectories(realPath: string, directories: string[]): boolean {
+  return directories.some((directory: string) => {
+    const realDirectory = resolveRealPath(directory);
+    const prefix = realDirectory.endsWith(path.sep) ? realDirectory : realDirectory + path.sep;
+    return realPath === realDirectory || realPath.startsWith(prefix);
+  });
+}
+
+/**
+ * Find the access tier of a real path
+ * The most specific allowed directory containing the path decides, so a read-only
+ * directory can be carved out of a writable one. Plain string entries have write
+ * access. Returns undefined if the path is outside every allowed directory.
+ */
+export function getDirectoryAccess(realPath: string, config: MCPConfig): DirectoryAccess | undefined {
+  let match: { depth: number; access: DirectoryAccess } | undefined;
+
+  for (const entry of config.allowedDirectories) {
+    const directory = typeof entry === 'string' ? entry : entry.path;
+    if (!isWithinDirectories(realPath, [directory])) {
+      continue;
+    }
+
+    const depth = resolveRealPath(directory).length;
+    if (!match || depth > match.depth) {
+      match = { depth, access: typeof entry === 'string' ? 'write' : entry.access };
+    }
   }
 
-  return isAllowed;
+  return match?.access;
+}
+
+/**
+ * Whether a real path is in an allowed directory with at least the given access
+ */
+function hasDirectoryAccess(realPath: string, config: MCPConfig, required: DirectoryAccess): boolean {
+  const access = getDirectoryAccess(realPath, config);
+  return access !== undefined && ACCESS_TIERS.indexOf(access) >= ACCESS_TIERS.indexOf(required);
 }
 
 /**
  * Validates if a directory is allowed based on the configuration
+ * Both the directory and the configured roots are compared by their real paths,
+ * so a symlink inside an allowed directory cannot point outside of it
  */
-export function isDirectoryAllowed(directory: string, config: MCPConfig): boolean {
+export function isDirectoryAllowed(
+  directory: string,
+  config: MCPConfig,
+  access: DirectoryAccess = 'read'
+): boolean {
+  return resolveAllowedDirectory(directory, config, access) !== undefined;
+}
+
+/**
+ * Resolve a directory to its real path if it is inside an allowed directory
+ * with at least the given access tier
+ * Returns undefined if the directory is not allowed
+ */
+export function resolveAllowedDirectory(
+  directory: string,
+  config: MCPConfig,
+  access: DirectoryAccess = 'read'
+): string | undefined {
   if (!directory || typeof directory !== 'string') {
-    return false;
+    return undefined;
   }
 
-  // Normalize the path to handle different formats
-  const normalizedDir = path.normalize(directory);
+  const realDir = resolveRealPath(directory);
 
   // Check if the directory is in the allowed list or is a subdirectory of an allowed directory
-  const isAllowed = config.allowedDirectories.some((allowedDir: string) => {
-    const normalizedAllowedDir = path.normalize(allowedDir);
-    return (
-      normalizedDir === normalizedAllowedDir ||
-      normalizedDir.startsWith(normalizedAllowedDir + path.sep)
-    );
-  });
+  const isAllowed = hasDirectoryAccess(realDir, config, access);
 
   if (!isAllowed) {
     // logger.warn(`Directory "${directory}" is not allowed`);
+    return undefined;
   }
 
-  return isAllowed;
+  return realDir;
+}
+
+/**
+ * Find the approval rule that applies to a command line, if any
+ * A rule with exemptDirectories only applies when the working directory or a
+ * path argument of the matching command lies outside those directories.
+ * Returns a description of the rule, or undefined if no approval is needed.
+ */
+export function findApprovalRule(
+  command: string,
+  config: MCPConfig,
+  cwd: string
+): string | undefined {
+  if (!config.approval) {
+    return undefined;
+  }
+
+  let commands: ShellSimpleCommand[];
+  try {
+    commands = listSimpleCommands(parseShellCommand(command));
+  } catch {
+    return undefined;
+  }
+
+  for (const simpleCommand of commands) {
+    const name = simpleCommand.name?.value;
+    const rule = config.approval.rules.find((r) => r.command === name);
+    if (!name || !rule) {
+      continue;
+    }
+
+    if (!rule.exemptDirectories) {
+      return rule.command;
+    }
+
+    const policy = getCommandPolicy(name, config) || { command: name };
+    const paths = [
+      resolveRealPath(cwd),
+      ...getPathWords(simpleCommand, { ...policy, pathArguments: 'all' }).map((word) =>
+        resolvePathArgument(word, cwd, config)
+      ),
+    ];
+    if (paths.some((p) => p === undefined || !isWithinDirectories(p, rule.exemptDirectories!))) {
+      return `${rule.command} outside ${rule.exemptDirectories.join(', ')}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the files a command line modifies, as real paths
+ * Uses the same write targets as the directory tier checks. Targets that depend
+ * on expansions, and command lines that cannot be parsed, are left out.
+ */
+export function getWritePaths(command: string, config: MCPConfig, cwd: string): string[] {
+  let commands: ShellSimpleCommand[];
+  try {
+    commands = listSimpleCommands(parseShellCommand(command));
+  } catch {
+    return [];
+  }
+
+  const paths: string[] = [];
+  for (const simpleCommand of commands) {
+    if (!simpleCommand.name) {
+      continue;
+    }
+    const name = simpleCommand.name.value;
+    const policy = getCommandPolicy(name, config) || { command: name };
+    for (const word of getWriteTargets(simpleCommand, policy)) {
+      const resolved = resolvePathArgument(word, cwd, config);
+      if (resolved !== undefined) {
+        paths.push(resolved);
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Find the existing files a command line deletes or overwrites
+ * Covers rm, rmdir and unlink operands, the destination of mv and cp (or the
+ * entries it replaces inside a destination directory), files tee writes without
+ * -a, and files truncated by ">" redirections. Paths are resolved without
+ * following symlinks, since rm removes the link rather than its target.
+ */
+export function getDestructiveTargets(
+  command: string,
+  cwd: string
+): { path: string; reason: 'deleted' | 'overwritten' }[] {
+  let commands: ShellSimpleCommand[];
+  try {
+    commands = listSimpleCommands(parseShellCommand(command));
+  } catch {
+    return [];
+  }
+
+  const resolve = (word: ShellWord): string | undefined => {
+    if (word.expanded || (!word.quoted && word.value.startsWith('~'))) {
+      return undefined;
+    }
+    return path.resolve(cwd, word.value);
+  };
+  const exists = (target: string): boolean => {
+    try {
+      fs.lstatSync(target);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const targets: { path: string; reason: 'deleted' | 'overwritten' }[] = [];
+  const add = (target: string | undefined, reason: 'deleted' | 'overwritten'): void => {
+    if (target !== undefined && exists(target) && !targets.some((t) => t.path === target)) {
+      targets.push({ path: target, reason });
+    }
+  };
+
+  for (const simpleCommand of commands) {
+    const name = simpleCommand.name?.value;
+    const targetDirectory = getTargetDirectory(simpleCommand);
+    const operands = getOperands(simpleCommand).filter((word) => word !== targetDirectory);
+    const sources = targetDirectory ? operands : operands.slice(0, -1);
+
+    if (name === 'rm' || name === 'rmdir' || name === 'unlink') {
+      operands.forEach((word) => add(resolve(word), 'deleted'));
+    } else if ((name === 'mv' || name === 'cp') && sources.length >= 1) {
+      const destination = resolve(targetDirectory ?? operands[operands.length - 1]);
+      if (destination !== undefined && exists(destination) && fs.statSync(destination).isDirectory()) {
+        for (const source of sources) {
+          add(path.join(destination, path.basename(source.value)), 'overwritten');
+        }
+      } else {
+        add(destination, 'overwritten');
+      }
+    } else if (
+      name === 'tee' &&
+      !simpleCommand.args.some((arg) => arg.value === '--append' || /^-[^-]*a/.test(arg.value))
+    ) {
+      operands.forEach((word) => add(resolve(word), 'overwritten'));
+    }
+
+    for (const redirection of simpleCommand.redirections) {
+      if (['>', '>|', '&>'].includes(redirection.operator)) {
+        add(resolve(redirection.target), 'overwritten');
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Validate input sent to a program running in a session, such as an answer to
+ * a prompt. Input typed at the shell prompt is validated with validateCommand.
+ * Without session.interactiveInput all such input is denied: input the program
+ * does not read is left in the terminal, and the shell runs it once the program exits.
+ */
+export function validateInteractiveInput(
+  input: string,
+  config: MCPConfig
+): { isValid: boolean; reason?: string } {
+  const policy = config.session.interactiveInput;
+  if (!policy) {
+    return {
+      isValid: false,
+      reason: 'Input to a running program is not allowed without session.interactiveInput',
+    };
+  }
+
+  if (policy.maxLength !== undefined && input.length > policy.maxLength) {
+    return {
+      isValid: false,
+      reason: `Input exceeds the maximum length of ${policy.maxLength} characters`,
+    };
+  }
+
+  const denied = (policy.deniedPatterns || []).find((pattern) => new RegExp(pattern).test(input));
+  if (denied) {
+    return { isValid: false, reason: `Input matches denied pattern: ${denied}` };
+  }
+
+  if (
+    policy.allowedPatterns &&
+    !policy.allowedPatterns.some((pattern) => new RegExp(`^(?:${pattern})$`).test(input))
+  ) {
+    return { isValid: false, reason: 'Input does not match any allowed pattern' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Cut text to at most maxBytes bytes of UTF-8 without splitting a character
+ */
+export function takeBytes(text: string, maxBytes: number): string {
+  const buffer = Buffer.from(text, 'utf8');
+  if (buffer.length <= maxBytes) {
+    return text;
+  }
+  let end = Math.max(maxBytes, 0);
+  // Back up over continuation bytes to the start of the cut character
+  while (end > 0 && (buffer[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return buffer.subarray(0, end).toString('utf8');
+}
+
+/**
+ * Take at most the last maxBytes bytes of UTF-8 text without splitting a character
+ */
+export function takeLastBytes(text: string, maxBytes: number): string {
+  const buffer = Buffer.from(text, 'utf8');
+  if (buffer.length <= maxBytes) {
+    return text;
+  }
+  let start = buffer.length - Math.max(maxBytes, 0);
+  while (start < buffer.length && (buffer[start] & 0xc0) === 0x80) {
+    start++;
+  }
+  return buffer.subarray(start).toString('utf8');
 }
 
 /**
  * Sanitize command output to remove any potentially harmful content
- * This is a simple implementation - for production you might want more sophisticated sanitization
+ * Secrets are redacted (unless security.redactSecrets is false) and the output is
+ * truncated to maxOutputSize bytes
  */
 export function sanitizeOutput(output: string, config: MCPConfig): string {
-  if (!config.security.sanitizeOutput) {
-    return output;
+  return sanitizeOutputWithReport(output, config).output;
+}
+
+/**
+ * Sanitize command output and report which secrets were redacted
+ * A note with the redaction counts is appended to the output so that the
+ * reader knows something was removed. Output over security.maxOutputSize bytes
+ * (UTF-8, the unit read_output pages by) is cut; when keep stores the full
+ * (redacted) output and returns a handle for it, the head and tail of the output
+ * are returned with the handle instead. With compaction settings the redacted
+ * output is compacted before it is cut.
+ */
+export function sanitizeOutputWithReport(
+  output: string,
+  config: MCPConfig,
+  keep?: (output: string) => string | undefined,
+  compaction?: CompactionConfig
+): {
+  output: string;
+  redactions: RedactionCounts;
+  truncated: boolean;
+  outputHandle?: string;
+  compaction?: CompactionReport;
+} {
+  let sanitized = output;
+  let redactions: RedactionCounts = {};
+  let outputHandle: string | undefined;
+  let report: CompactionReport | undefined;
+
+  if (config.security.redactSecrets !== false) {
+    ({ text: sanitized, redactions } = redactSecrets(output, config.security.redactionPatterns));
+  }
+
+  if (compaction) {
+    ({ output: sanitized, report, outputHandle } = compactOutput(sanitized, compaction, keep));
   }
 
-  // Truncate output if it exceeds the maximum size
-  if (output.length > config.security.maxOutputSize) {
-    const truncatedOutput = output.substring(0, config.security.maxOutputSize);
-    return truncatedOutput + '\n[Output truncated due to size limits]';
+  const maxSize = config.security.maxOutputSize;
+  const size = Buffer.byteLength(sanitized);
+  const truncated = !!config.security.sanitizeOutput && size > maxSize;
+  if (truncated) {
+    // Compaction may already have kept the full output
+    outputHandle ??= keep?.(sanitized);
+    if (outputHandle) {
+      const head = takeBytes(sanitized, Math.floor(maxSize / 2));
+      const tail = takeLastBytes(sanitized, maxSize - Math.floor(maxSize / 2));
+      const omitted = size - Buffer.byteLength(head) - Buffer.byteLength(tail);
+      sanitized =
+        head +
+        `\n[${omitted} of ${size} bytes omitted; ` +
+        `read the full output with read_output and handle ${outputHandle}]\n` +
+        tail;
+    } else {
+      // Truncate output if it exceeds the maximum size
+      sanitized = takeBytes(sanitized, maxSize) + '\n[Output truncated due to size limits]';
+    }
   }
 
-  return output;
+  const count = Object.values(redactions).reduce((sum, n) => sum + n, 0);
+  if (count > 0) {
+    sanitized += `\n[Redacted ${count} secret${count === 1 ? '' : 's'}: ${describeRedactions(redactions)}]`;
+  }
+
+  return {
+    output: sanitized,
+    redactions,
+    truncated,
+    ...(outputHandle && { outputHandle }),
+    ...(report && { compaction: report }),
+  };
+}
+
+/**
+ * Sanitize one output stream (stdout or stderr) for a structured result
+ * Secrets are redacted and the text is cut to security.maxOutputSize bytes like the
+ * combined output, but without notes appended, so the text is only program output
+ * (apart from compaction's notes, when compaction settings are given)
+ */
+export function sanitizeStreamOutput(
+  output: string,
+  config: MCPConfig,
+  compaction?: CompactionConfig
+): { output: string; truncated: boolean } {
+  let redacted =
+    config.security.redactSecrets !== false
+      ? redactSecrets(output, config.security.redactionPatterns).text
+      : output;
+  if (compaction) {
+    redacted = compactOutput(redacted, compaction).output;
+  }
+
+  const truncated =
+    !!config.security.sanitizeOutput &&
+    Buffer.byteLength(redacted) > config.security.maxOutputSize;
+  return {
+    output: truncated ? takeBytes(redacted, config.security.maxOutputSize) : redacted,
+    truncated,
+  };
 }
 
 /**
  * Validate a command string for potential security issues
+ * In strict mode only a single simple command is accepted: no lists, pipelines,
+ * subshells, redirections or substitutions. Pass the working directory to also
+ * confine path arguments and redirection targets to allowedDirectories.
  */
 export function validateCommand(
   command: string,
-  config: MCPConfig
+  config: MCPConfig,
+  cwd?: string
 ): { isValid: boolean; reason?: string } {
   if (!command || typeof command !== 'string') {
     return { isValid: false, reason: 'Command cannot be empty' };
   }
 
-  // Check for basic command injection patterns
-  const dangerousPatterns = [
-    ';',
-    '&&',
-    '||',
-    '`',
-    '$(', // Command chaining/substitution
-    '>',
-    '>>',
-    '<',
-    '<<', // Redirection
-    '|', // Piping
-    '\\', // Escaping
-    '--', // Long options that might bypass restrictions
-  ];
-
-  // If strict validation is enabled, don't allow dangerous patterns
+  let tree: ShellNode;
+  try {
+    tree = parseShellCommand(command);
+  } catch (error) {
+    return {
+      isValid: false,
+      reason: `Command could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  // If strict validation is enabled, don't allow compound syntax
   if (config.security.validateCommandsStrictly) {
-    for (const pattern of dangerousPatterns) {
-      if (command.includes(pattern)) {
-        return { isValid: false, reason: `Command contains forbidden pattern: ${pattern}` };
-      }
+    const construct = findCompoundSyntax(tree);
+    if (construct) {
+      return { isValid: false, reason: `Command contains forbidden pattern: ${construct}` };
     }
   }
 
-  // Check if the base command is allowed
-  if (!isCommandAllowed(command, config)) {
-    return { isValid: false, reason: 'Command is not in the allowed list' };
+  // Check every command in the line against the allowed list, and its paths
+  // against the allowed directories when the working directory is known
+  const reason = checkCommandTree(tree, config, cwd);
+  if (reason) {
+    return { isValid: false, reason };
   }
 
   return { isValid: true };
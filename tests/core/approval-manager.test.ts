@@ -0,0 +1,128 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ApprovalManager } from '../../src/core/approval-manager';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('ApprovalManager', () => {
+  const config = {
+    ...createMockConfig(),
+    approval: { rules: [{ command: 'rm' }], pendingTimeout: 60 },
+  };
+  let manager: ApprovalManager;
+
+  beforeEach(() => {
+    manager = new ApprovalManager(config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('request', () => {
+    it('should queue a command and list it as pending', () => {
+      const pending = manager.request('rm file', '/tmp', 'rm');
+
+      expect(pending.id).toBeDefined();
+      expect(pending.command).toBe('rm file');
+      expect(manager.listPending()).toEqual([pending]);
+    });
+
+    it('should reuse the pending entry for an identical request', () => {
+      const first = manager.request('rm file', '/tmp', 'rm');
+      const second = manager.request('rm file', '/tmp', 'rm');
+
+      expect(second.id).toBe(first.id);
+      expect(manager.listPending().length).toBe(1);
+    });
+
+    it('should expire requests after the pending timeout', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      manager.request('rm file', '/tmp', 'rm');
+
+      jest.setSystemTime(new Date('2026-01-01T00:02:00Z'));
+
+      expect(manager.listPending()).toEqual([]);
+    });
+  });
+
+  describe('approve', () => {
+    it('should grant a one-shot approval that is used up by the next run', () => {
+      const pending = manager.request('rm file', '/tmp', 'rm');
+
+      const grant = manager.approve(pending.id);
+
+      expect(grant?.expiresAt).toBeUndefined();
+      expect(manager.listPending()).toEqual([]);
+      expect(manager.consumeGrant('rm file', '/tmp')).toBe(true);
+      expect(manager.consumeGrant('rm file', '/tmp')).toBe(false);
+    });
+
+    it('should grant a time-limited approval that can be used until it expires', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const pending = manager.request('rm file', '/tmp', 'rm');
+
+      const grant = manager.approve(pending.id, 30);
+
+      expect(grant?.expiresAt).toBe('2026-01-01T00:00:30.000Z');
+      expect(manager.consumeGrant('rm file', '/tmp')).toBe(true);
+      expect(manager.consumeGrant('rm file', '/tmp')).toBe(true);
+
+      jest.setSystemTime(new Date('2026-01-01T00:00:31Z'));
+      expect(manager.consumeGrant('rm file', '/tmp')).toBe(false);
+    });
+
+    it('should not grant approvals for other commands or directories', () => {
+      const pending = manager.request('rm file', '/tmp', 'rm');
+      manager.approve(pending.id);
+
+      expect(manager.consumeGrant('rm other', '/tmp')).toBe(false);
+      expect(manager.consumeGrant('rm file', '/home/test')).toBe(false);
+    });
+
+    it('should return undefined for unknown IDs', () => {
+      expect(manager.approve('unknown-id')).toBeUndefined();
+    });
+  });
+
+  describe('reject', () => {
+    it('should remove the pending command without granting it', () => {
+      const pending = manager.request('rm file', '/tmp', 'rm');
+
+      expect(manager.reject(pending.id, 'not today')).toEqual(pending);
+      expect(manager.listPending()).toEqual([]);
+      expect(manager.consumeGrant('rm file', '/tmp')).toBe(false);
+    });
+
+    it('should return undefined for unknown IDs', () => {
+      expect(manager.reject('unknown-id')).toBeUndefined();
+    });
+  });
+
+  describe('state file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-approval-'));
+    });
+
+    afterEach(() => {
+      fs.removeSync(dir);
+    });
+
+    it('should share pending commands and decisions between instances', () => {
+      const sharedConfig = {
+        ...config,
+        approval: { ...config.approval, stateFile: path.join(dir, 'approvals.json') },
+      };
+      const server = new ApprovalManager(sharedConfig);
+      const cli = new ApprovalManager(sharedConfig);
+
+      const pending = server.request('rm file', '/tmp', 'rm');
+      expect(cli.listPending().map((p) => p.id)).toEqual([pending.id]);
+
+      cli.approve(pending.id);
+      expect(server.consumeGrant('rm file', '/tmp')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AuditLog } from '../../src/core/audit-log';
+import { AuditRecord, ExecutionResult } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+  let auditLog: AuditLog;
+
+  const ok: ExecutionResult = { success: true, output: 'hello\n', command: 'echo hello' };
+
+  /**
+   * Read the records written to the log
+   */
+  function readRecords(): AuditRecord[] {
+    return fs
+      .readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as AuditRecord);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-audit-'));
+    file = path.join(dir, 'logs', 'audit.jsonl');
+    auditLog = new AuditLog({ ...createMockConfig(), audit: { file } });
+  });
+
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  describe('record', () => {
+    it('should append chained records', () => {
+      const first = auditLog.record('execute_command', 'echo hello', '/tmp', ok, 12);
+      const second = auditLog.record('send_session_input', 'ls', '/tmp', { ...ok, sessionId: 's1' }, 3);
+
+      expect(first).toMatchObject({
+        seq: 1,
+        tool: 'execute_command',
+        command: 'echo hello',
+        cwd: '/tmp',
+        decision: 'allowed',
+        durationMs: 12,
+        prevHash: '0'.repeat(64),
+      });
+      expect(first?.outputDigest).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(second).toMatchObject({ seq: 2, sessionId: 's1', prevHash: first?.hash });
+      expect(readRecords()).toEqual([first, second]);
+    });
+
+    it('should record the validation decision and reason', () => {
+      auditLog.record(
+        'execute_command',
+        'rm -rf /',
+        '/tmp',
+        { success: false, output: '', error: 'not allowed', denied: true, command: 'rm -rf /' },
+        1
+      );
+      auditLog.record(
+        'execute_command',
+        'rm x',
+        '/tmp',
+        { success: false, output: '', error: 'needs approval', pendingApprovalId: 'p1', command: 'rm x' },
+        1
+      );
+
+      expect(readRecords().map((r) => [r.decision, r.reason])).toEqual([
+        ['denied', 'not allowed'],
+        ['pending-approval', 'needs approval'],
+      ]);
+    });
+
+    it('should redact secrets from the recorded command', () => {
+      const record = auditLog.record('execute_command', 'echo API_TOKEN=abc123', '/tmp', ok, 1);
+
+      expect(record?.command).toBe('echo API_TOKEN=[REDACTED:password-assignment]');
+    });
+
+    it('should do nothing without an audit file', () => {
+      const disabled = new AuditLog(createMockConfig());
+
+      expect(disabled.record('execute_command', 'echo hello', '/tmp', ok, 1)).toBeUndefined();
+      expect(fs.pathExistsSync(file)).toBe(false);
+    });
+
+    it('should continue the chain of an existing log', () => {
+      const first = auditLog.record('execute_command', 'echo hello', '/tmp', ok, 1);
+
+      const reopened = new AuditLog({ ...createMockConfig(), audit: { file } });
+      const second = reopened.record('execute_command', 'echo again', '/tmp', ok, 1);
+
+      expect(second).toMatchObject({ seq: 2, prevHash: first?.hash });
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      auditLog.record('execute_command', 'echo one', '/tmp', ok, 1);
+      auditLog.record('execute_command', 'echo two', '/tmp', ok, 1);
+      auditLog.record('execute_command', 'echo three', '/tmp', ok, 1);
+    });
+
+    it('should accept an intact log', () => {
+      expect(auditLog.verify()).toEqual({ valid: true, records: 3 });
+    });
+
+    it('should detect modified records', () => {
+      const lines = fs.readFileSync(file, 'utf8').split('\n');
+      lines[1] = lines[1].replace('echo two', 'echo 2');
+      fs.writeFileSync(file, lines.join('\n'));
+
+      expect(auditLog.verify()).toEqual({
+        valid: false,
+        records: 1,
+        error: 'Record hash does not match its contents',
+        line: 2,
+      });
+    });
+
+    it('should detect removed records', () => {
+      const lines = fs.readFileSync(file, 'utf8').split('\n');
+      lines.splice(1, 1);
+      fs.writeFileSync(file, lines.join('\n'));
+
+      const verification = auditLog.verify();
+      expect(verification.valid).toBe(false);
+      expect(verification.line).toBe(2);
+      expect(verification.error).toMatch(/Expected sequence number 2, found 3/);
+    });
+
+    it('should report a missing log', () => {
+      expect(auditLog.verify(path.join(dir, 'missing.jsonl')).valid).toBe(false);
+    });
+  });
+});
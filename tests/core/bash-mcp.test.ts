@@ -18,6 +18,9 @@ import { BashMCP } from '../../src/core/bash-mcp';
 import { CommandExecutor } from '../../src/core/command-executor';
 import { SessionManager } from '../../src/core/session-manager';
 import { createMockConfig } from '../helpers/mocks';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
 
 describe('BashMCP', () => {
   const config = createMockConfig();
@@ -57,6 +60,7 @@ describe('BashMCP', () => {
       sendInput: jest.fn().mockReturnValue(true),
       closeSession: jest.fn().mockReturnValue(true),
       listSessions: jest.fn().mockReturnValue([]),
+      getScreen: jest.fn(),
       shutdown: jest.fn(),
       getSession: jest.fn().mockReturnValue({
         id: 'test-session-id',
@@ -93,7 +97,18 @@ describe('BashMCP', () => {
 
       expect(result.success).toBe(true);
       expect(mockCommandExecutor.executeCommand).not.toHaveBeenCalled();
-      expect(mockSessionManager.executeInSession).toHaveBeenCalledWith('test-session-id', 'echo test');
+      expect(mockSessionManager.executeInSession).toHaveBeenCalledWith('test-session-id', 'echo test', undefined, undefined, undefined, undefined);
+    });
+
+    it('should reject stdin for commands in sessions', async () => {
+      const result = await mcp.executeCommand('sort', { sessionId: 'test-session-id', stdin: 'b\na\n' });
+
+      expect(result).toMatchObject({
+        success: false,
+        denied: true,
+        error: 'stdin is only supported for stateless commands',
+      });
+      expect(mockSessionManager.executeInSession).not.toHaveBeenCalled();
     });
 
     it('should create a new session when defaultMode is stateful', async () => {
@@ -127,7 +142,7 @@ describe('BashMCP', () => {
 
       expect(result.success).toBe(true);
       expect(newSessionManagerMock.createSession).toHaveBeenCalledWith('/tmp');
-      expect(newSessionManagerMock.executeInSession).toHaveBeenCalledWith('new-session-id', 'echo test');
+      expect(newSessionManagerMock.executeInSession).toHaveBeenCalledWith('new-session-id', 'echo test', undefined, undefined, undefined, undefined);
     });
 
     it('should handle errors gracefully', async () => {
@@ -147,6 +162,165 @@ describe('BashMCP', () => {
     });
   });
 
+  describe('approval workflow', () => {
+    const approvalConfig = {
+      ...config,
+      approval: { rules: [{ command: 'cat', exemptDirectories: ['/tmp'] }] },
+    };
+    let approvalMcp: BashMCP;
+
+    beforeEach(() => {
+      approvalMcp = new BashMCP(approvalConfig);
+    });
+
+    it('should hold commands that match an approval rule', async () => {
+      const result = await approvalMcp.executeCommand('cat /home/test/notes', { cwd: '/tmp' });
+
+      expect(result.success).toBe(false);
+      expect(result.pendingApprovalId).toBeDefined();
+      expect(result.output).toMatch(/requires approval \(cat outside \/tmp\)/);
+      expect(mockCommandExecutor.executeCommand).not.toHaveBeenCalled();
+      expect(approvalMcp.listPendingCommands().map((p) => p.id)).toEqual([result.pendingApprovalId]);
+    });
+
+    it('should run commands inside the exempt directories without approval', async () => {
+      const result = await approvalMcp.executeCommand('cat notes', { cwd: '/tmp' });
+
+      expect(result.success).toBe(true);
+      expect(mockCommandExecutor.executeCommand).toHaveBeenCalled();
+    });
+
+    it('should run an approved command once', async () => {
+      const held = await approvalMcp.executeCommand('cat /home/test/notes', { cwd: '/tmp' });
+
+      expect(approvalMcp.approveCommand(held.pendingApprovalId!).success).toBe(true);
+
+      const approved = await approvalMcp.executeCommand('cat /home/test/notes', { cwd: '/tmp' });
+      expect(approved.success).toBe(true);
+      expect(mockCommandExecutor.executeCommand).toHaveBeenCalledTimes(1);
+
+      const again = await approvalMcp.executeCommand('cat /home/test/notes', { cwd: '/tmp' });
+      expect(again.pendingApprovalId).toBeDefined();
+    });
+
+    it('should not run rejected commands', async () => {
+      const held = await approvalMcp.executeCommand('cat /home/test/notes', { cwd: '/tmp' });
+
+      expect(approvalMcp.rejectCommand(held.pendingApprovalId!, 'no').success).toBe(true);
+      expect(approvalMcp.listPendingCommands()).toEqual([]);
+      expect(approvalMcp.rejectCommand(held.pendingApprovalId!).success).toBe(false);
+    });
+
+    it('should hold background jobs that match an approval rule', async () => {
+      const result = await approvalMcp.startJob('cat /home/test/notes', { cwd: '/tmp' });
+
+      expect(result.success).toBe(false);
+      expect(result.pendingApprovalId).toBeDefined();
+      expect(approvalMcp.listJobs()).toEqual([]);
+    });
+
+    it('should leave invalid commands to the executor', async () => {
+      await approvalMcp.executeCommand('rm -rf /', { cwd: '/tmp' });
+
+      expect(approvalMcp.listPendingCommands()).toEqual([]);
+      expect(mockCommandExecutor.executeCommand).toHaveBeenCalled();
+    });
+  });
+
+  describe('audit log', () => {
+    let dir: string;
+    let auditMcp: BashMCP;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-audit-'));
+      auditMcp = new BashMCP({ ...config, audit: { file: path.join(dir, 'audit.jsonl') } });
+    });
+
+    afterEach(() => {
+      fs.removeSync(dir);
+    });
+
+    it('should record every executed command', async () => {
+      await auditMcp.executeCommand('echo test', { cwd: '/tmp' });
+
+      const lines = fs.readFileSync(path.join(dir, 'audit.jsonl'), 'utf8').trim().split('\n');
+      expect(lines.length).toBe(1);
+      expect(JSON.parse(lines[0])).toMatchObject({
+        tool: 'execute_command',
+        command: 'echo test',
+        cwd: '/tmp',
+        decision: 'allowed',
+      });
+      expect(auditMcp.verifyAuditLog()).toEqual({ valid: true, records: 1 });
+    });
+  });
+
+  describe('killJob', () => {
+    it('should reject unknown signal names', () => {
+      const result = mcp.killJob('job-id', 'TERM' as NodeJS.Signals);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/Unknown signal "TERM"/);
+    });
+  });
+
+  describe('readOutput', () => {
+    it('should report unknown or expired handles', () => {
+      expect(mcp.readOutput('unknown-handle')).toEqual({
+        success: false,
+        error: 'Output unknown-handle not found or expired',
+      });
+    });
+  });
+
+  describe('trash', () => {
+    let dir: string;
+    let trashMcp: BashMCP;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-trash-'));
+      trashMcp = new BashMCP({
+        ...config,
+        allowedCommands: ['rm'],
+        trash: { enabled: true, directory: path.join(dir, 'trash') },
+      });
+    });
+
+    afterEach(() => {
+      fs.removeSync(dir);
+    });
+
+    it('should save deleted files before running the command and restore them', async () => {
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'hello');
+
+      const result = await trashMcp.executeCommand('rm a.txt', { cwd: dir });
+      fs.removeSync(path.join(dir, 'a.txt'));
+
+      expect(result.trashed).toEqual([
+        expect.objectContaining({ originalPath: path.join(dir, 'a.txt'), reason: 'deleted' }),
+      ]);
+      expect(trashMcp.listTrash()).toEqual(result.trashed);
+
+      const restored = await trashMcp.restoreFromTrash(result.trashed![0].id);
+      expect(restored.success).toBe(true);
+      expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe('hello');
+    });
+
+    it('should not save files for commands that fail validation', async () => {
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'hello');
+
+      await trashMcp.executeCommand('rm a.txt; shred a.txt', { cwd: dir });
+
+      expect(trashMcp.listTrash()).toEqual([]);
+    });
+
+    it('should report unknown trash IDs', async () => {
+      const result = await trashMcp.restoreFromTrash('unknown-id');
+
+      expect(result).toEqual({ success: false, error: 'Trash item unknown-id not found' });
+    });
+  });
+
   describe('sendInput', () => {
     it('should send input to an existing session', async () => {
       // Add collectOutputAfterInput mock method
@@ -164,7 +338,8 @@ describe('BashMCP', () => {
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('Real output from command');
-      expect(mockSessionManager.collectOutputAfterInput).toHaveBeenCalledWith('test-session-id', 'test input', undefined);
+      // Without a timeout, output is collected for security.commandTimeout (5 seconds)
+      expect(mockSessionManager.collectOutputAfterInput).toHaveBeenCalledWith('test-session-id', 'test input', 5000, undefined, undefined, undefined);
     });
 
     it('should handle non-existent sessions', async () => {
@@ -192,7 +367,36 @@ describe('BashMCP', () => {
       const result = await mcp.sendInput(input);
 
       expect(result.success).toBe(true);
-      expect(mockSessionManager.collectOutputAfterInput).toHaveBeenCalledWith('test-session-id', 'test input', 5000);
+      expect(mockSessionManager.collectOutputAfterInput).toHaveBeenCalledWith('test-session-id', 'test input', 5000, undefined, undefined, undefined);
+    });
+  });
+
+  describe('waitForOutput', () => {
+    it('should wait for session output with the configured timeout by default', async () => {
+      mockSessionManager.waitForOutput = jest.fn().mockResolvedValue({
+        success: true,
+        output: '>>> ',
+        sessionId: 'test-session-id',
+        command: 'python3',
+        waitEndedBy: 'match',
+        match: { pattern: '>>> $', literal: false, text: '>>> ' },
+      });
+
+      const result = await mcp.waitForOutput({
+        sessionId: 'test-session-id',
+        input: 'python3',
+        patterns: ['>>> $'],
+      });
+
+      expect(result.match?.pattern).toBe('>>> $');
+      expect(mockSessionManager.waitForOutput).toHaveBeenCalledWith(
+        'test-session-id',
+        'python3',
+        { patterns: ['>>> $'], timeout: 5000 },
+        undefined,
+        undefined,
+        undefined
+      );
     });
   });
 
@@ -248,6 +452,34 @@ describe('BashMCP', () => {
     });
   });
 
+  describe('getScreen', () => {
+    it('should return the screen of a session', () => {
+      const screen = {
+        columns: 80,
+        rows: 30,
+        lines: ['$ '],
+        cursor: { row: 0, column: 2 },
+        cursorVisible: true,
+        alternateScreen: false,
+      };
+      mockSessionManager.getScreen.mockReturnValue(screen);
+
+      const result = mcp.getScreen('test-session-id', true);
+
+      expect(result).toEqual({ success: true, screen });
+      expect(mockSessionManager.getScreen).toHaveBeenCalledWith('test-session-id', true);
+    });
+
+    it('should fail for non-existent sessions', () => {
+      mockSessionManager.getScreen.mockReturnValue(undefined);
+
+      const result = mcp.getScreen('non-existent-id');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/Session non-existent-id not found/);
+    });
+  });
+
   describe('shutdown', () => {
     it('should shut down the session manager', () => {
       mcp.shutdown();
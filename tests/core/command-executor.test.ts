@@ -1,5 +1,8 @@
 import { createMockConfig } from '../helpers/mocks';
 import { ExecutionOptions } from '../../src/types';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
 
 // Create mocks before importing the module
 const mockChildProcess = {
@@ -35,6 +38,7 @@ jest.mock('child_process', () => mockChildProcess);
 
 // Now import the module under test
 import { CommandExecutor } from '../../src/core/command-executor';
+import { estimateTokens } from '../../src/utils/compactor';
 
 describe('CommandExecutor', () => {
   const config = createMockConfig();
@@ -57,6 +61,176 @@ describe('CommandExecutor', () => {
       expect(mockChildProcess.spawn).toHaveBeenCalledWith('echo', ['test'], expect.any(Object));
     });
 
+    it('should report stdout, stderr and the exact exit status separately', async () => {
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: {
+          on: jest.fn().mockImplementation((event, cb) => {
+            if (event === 'data') {
+              cb('out\n');
+            }
+          }),
+        },
+        stderr: {
+          on: jest.fn().mockImplementation((event, cb) => {
+            if (event === 'data') {
+              cb('err\n');
+            }
+          }),
+        },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(0, null), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+
+      const result = await executor.executeCommand('echo test', { cwd: '/tmp' });
+
+      expect(result).toMatchObject({
+        success: true,
+        stdout: 'out\n',
+        stderr: 'err\n',
+        exitCode: 0,
+        truncated: false,
+        cwd: '/tmp',
+      });
+      expect(result.signal).toBeUndefined();
+      expect(result.durationMs).toEqual(expect.any(Number));
+    });
+
+    it('should fit the whole result, not only the output, in the token budget', async () => {
+      const lines = Array.from({ length: 5000 }, (_, i) => i + 1).join('\n');
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: {
+          on: jest.fn().mockImplementation((event, cb) => {
+            if (event === 'data') {
+              cb(lines);
+            }
+          }),
+        },
+        stderr: { on: jest.fn() },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(0, null), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+      const budgetExecutor = new CommandExecutor({
+        ...config,
+        compaction: { enabled: true, tokenBudget: 200 },
+      });
+
+      const result = await budgetExecutor.executeCommand('echo test', { cwd: '/tmp' });
+      const { output, ...structured } = result;
+
+      expect(result.stdout).toBeUndefined();
+      expect(result.stderr).toBeUndefined();
+      expect(output).toMatch(/^1\n/);
+      expect(output).toMatch(/\n5000$/);
+      expect(estimateTokens(output) + estimateTokens(JSON.stringify(structured, null, 2))).toBeLessThanOrEqual(200);
+    });
+
+    it('should report death by a signal without an exit code', async () => {
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: { on: jest.fn() },
+        stderr: { on: jest.fn() },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(null, 'SIGKILL'), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+
+      const result = await executor.executeCommand('echo test', { cwd: '/tmp' });
+
+      expect(result).toMatchObject({
+        success: false,
+        signal: 'SIGKILL',
+        error: 'Command terminated by signal SIGKILL',
+      });
+      expect(result.exitCode).toBeUndefined();
+      expect(result.timedOut).toBeUndefined();
+    });
+
+    it('should stop the process and report cancellation when the signal is aborted', async () => {
+      const closeHandlers: ((code: number | null, signal: string | null) => void)[] = [];
+      const kill = jest.fn().mockImplementation(() => {
+        closeHandlers.forEach((cb) => cb(null, 'SIGTERM'));
+      });
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: { on: jest.fn() },
+        stderr: { on: jest.fn() },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            closeHandlers.push(cb);
+          }
+        }),
+        kill,
+      }));
+      const controller = new AbortController();
+
+      const pending = executor.executeCommand('echo test', { cwd: '/tmp', signal: controller.signal });
+      controller.abort();
+      const result = await pending;
+
+      expect(kill).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        success: false,
+        cancelled: true,
+        error: 'Command was cancelled',
+      });
+      expect(result.timedOut).toBeUndefined();
+    });
+
+    it('should write stdin to the command and close it', async () => {
+      const stdin = { on: jest.fn(), end: jest.fn() };
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: { on: jest.fn() },
+        stderr: { on: jest.fn() },
+        stdin,
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(0, null), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+
+      const result = await executor.executeCommand('echo test', {
+        cwd: '/tmp',
+        stdin: Buffer.from('b\na\n').toString('base64'),
+        stdinEncoding: 'base64',
+      });
+
+      expect(result.success).toBe(true);
+      expect(stdin.end).toHaveBeenCalledWith(Buffer.from('b\na\n'));
+    });
+
+    it('should reject stdin that is too large or not valid base64', async () => {
+      const limited = new CommandExecutor({
+        ...config,
+        security: { ...config.security, maxStdinSize: 4 },
+      });
+
+      const large = await limited.executeCommand('echo test', { cwd: '/tmp', stdin: 'hello' });
+      const invalid = await limited.executeCommand('echo test', {
+        cwd: '/tmp',
+        stdin: 'not base64!',
+        stdinEncoding: 'base64',
+      });
+
+      expect(large).toMatchObject({
+        success: false,
+        denied: true,
+        error: 'stdin is 5 bytes, more than the limit of 4',
+      });
+      expect(invalid).toMatchObject({ success: false, error: 'stdin is not valid base64' });
+      expect(mockChildProcess.spawn).not.toHaveBeenCalled();
+    });
+
     it('should fail for disallowed commands', async () => {
       // Execute test
       const result = await executor.executeCommand('rm -rf /', { cwd: '/tmp' });
@@ -77,6 +251,188 @@ describe('CommandExecutor', () => {
       expect(mockChildProcess.spawn).not.toHaveBeenCalled();
     });
 
+    it('should fail for path arguments outside the allowed directories', async () => {
+      const result = await executor.executeCommand('cat /etc/shadow', { cwd: '/tmp' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/outside the allowed directories/);
+      expect(mockChildProcess.spawn).not.toHaveBeenCalled();
+    });
+
+    it('should redact secrets from the output and report them', async () => {
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: {
+          on: jest.fn().mockImplementation((event, cb) => {
+            if (event === 'data') {
+              cb('SECRET_TOKEN=abc123');
+            }
+          }),
+        },
+        stderr: { on: jest.fn() },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(0), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+
+      const result = await executor.executeCommand('cat .env', { cwd: '/tmp' });
+
+      expect(result.output).not.toContain('abc123');
+      expect(result.output).toContain('[Redacted 1 secret: password-assignment x1]');
+      expect(result.redactions).toEqual({ 'password-assignment': 1 });
+    });
+
+    it('should stream redacted output to the listener as it arrives', async () => {
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: {
+          on: jest.fn().mockImplementation((event, cb) => {
+            if (event === 'data') {
+              cb('building\nSECRET_TOKEN=abc123\n');
+              cb('done');
+            }
+          }),
+        },
+        stderr: {
+          on: jest.fn().mockImplementation((event, cb) => {
+            if (event === 'data') {
+              cb('warning\n');
+            }
+          }),
+        },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(0), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+      const onOutput = jest.fn();
+
+      const result = await executor.executeCommand('echo test', { cwd: '/tmp', onOutput });
+
+      expect(onOutput.mock.calls).toEqual([
+        ['building\nSECRET_TOKEN=[REDACTED:password-assignment]\n', 'stdout'],
+        ['warning\n', 'stderr'],
+        ['done', 'stdout'],
+      ]);
+      expect(result.output).toContain('done');
+    });
+
+    it('should run commands under their resource limits in bash', async () => {
+      const limitedExecutor = new CommandExecutor({
+        ...config,
+        security: { ...config.security, resourceLimits: { openFiles: 64 } },
+      });
+
+      await limitedExecutor.executeCommand('echo test', { cwd: '/tmp' });
+
+      expect(mockChildProcess.spawn).toHaveBeenCalledWith(
+        'ulimit',
+        ['-n', '64', '||', 'exit', '126;', 'echo', 'test'],
+        expect.objectContaining({ shell: 'bash' })
+      );
+    });
+
+    it('should report when a resource limit stopped the command', async () => {
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: { on: jest.fn() },
+        stderr: { on: jest.fn() },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => cb(null, 'SIGXCPU'), 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+      const limitedExecutor = new CommandExecutor({
+        ...config,
+        security: { ...config.security, resourceLimits: { cpuTime: 2 } },
+      });
+
+      const result = await limitedExecutor.executeCommand('cat big', { cwd: '/tmp' });
+
+      expect(result.success).toBe(false);
+      expect(result.limitExceeded).toBe('cpuTime');
+      expect(result.error).toBe('Command stopped: CPU time limit of 2 seconds exceeded');
+    });
+
+    it('should fail instead of running unsandboxed when no sandbox backend exists', async () => {
+      const originalPath = process.env.PATH;
+      process.env.PATH = '/nonexistent';
+      const sandboxedExecutor = new CommandExecutor({ ...config, sandbox: { enabled: true } });
+
+      try {
+        const result = await sandboxedExecutor.executeCommand('echo test', { cwd: '/tmp' });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/Sandbox is enabled but neither bwrap nor unshare/);
+        expect(mockChildProcess.spawn).not.toHaveBeenCalled();
+      } finally {
+        process.env.PATH = originalPath;
+      }
+    });
+
+    it('should reject requested environment variables denied by the policy', async () => {
+      const result = await executor.executeCommand('echo test', {
+        cwd: '/tmp',
+        env: { GITHUB_TOKEN: 'ghp_secret' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/matches denied pattern "\*_TOKEN"/);
+      expect(mockChildProcess.spawn).not.toHaveBeenCalled();
+    });
+
+    it('should not pass secrets from the server environment to commands', async () => {
+      process.env.BASH_MCP_TEST_TOKEN = 'secret';
+
+      try {
+        await executor.executeCommand('echo test', { cwd: '/tmp', env: { TEST_VAR: 'x' } });
+
+        const env = mockChildProcess.spawn.mock.calls[0][2].env;
+        expect(env.TEST_VAR).toBe('x');
+        expect(env.BASH_MCP_TEST_TOKEN).toBeUndefined();
+        expect(env.PATH).toBe(process.env.PATH);
+      } finally {
+        delete process.env.BASH_MCP_TEST_TOKEN;
+      }
+    });
+
+    it('should report the files a command changed when change tracking is enabled', async () => {
+      const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-executor-')));
+      mockChildProcess.spawn.mockImplementationOnce(() => ({
+        stdout: { on: jest.fn() },
+        stderr: { on: jest.fn() },
+        on: jest.fn().mockImplementation((event, cb) => {
+          if (event === 'close') {
+            setTimeout(() => {
+              fs.writeFileSync(path.join(dir, 'created.txt'), 'x');
+              cb(0);
+            }, 10);
+          }
+        }),
+        kill: jest.fn(),
+      }));
+      const trackingExecutor = new CommandExecutor({
+        ...config,
+        changeTracking: { enabled: true },
+      });
+
+      try {
+        const result = await trackingExecutor.executeCommand('echo test', { cwd: dir });
+
+        expect(result.changes).toEqual({
+          created: [path.join(dir, 'created.txt')],
+          modified: [],
+          deleted: [],
+        });
+      } finally {
+        fs.removeSync(dir);
+      }
+    });
+
     it('should handle command options correctly', async () => {
       // Prepare options
       const options: ExecutionOptions = {
@@ -92,7 +448,7 @@ describe('CommandExecutor', () => {
       expect(mockChildProcess.spawn).toHaveBeenCalledWith('echo', ['$TEST_VAR'], expect.objectContaining({
         cwd: '/tmp',
         env: expect.any(Object),
-        shell: true,
+        shell: 'bash',
       }));
     });
 
@@ -108,7 +464,7 @@ describe('CommandExecutor', () => {
         // Verify default options
         expect(mockChildProcess.spawn).toHaveBeenCalledWith('echo', ['test'], expect.objectContaining({
           cwd: '/tmp',
-          shell: true,
+          shell: 'bash',
         }));
       } finally {
         // Restore original process.cwd
@@ -0,0 +1,142 @@
+import { CommandExecutor } from '../../src/core/command-executor';
+import { JobManager } from '../../src/core/job-manager';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('JobManager', () => {
+  const config: MCPConfig = {
+    ...createMockConfig(),
+    allowedCommands: ['echo', 'sleep', 'cat'],
+    jobs: { maxJobs: 2, maxOutputSize: 8, retention: 60, maxWait: 5 },
+  };
+  let manager: JobManager;
+
+  beforeEach(() => {
+    manager = new JobManager(config, new CommandExecutor(config));
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+  });
+
+  describe('start', () => {
+    it('should run a command in the background and report its exit status', async () => {
+      const started = manager.start('echo hello', { cwd: '/tmp' });
+
+      expect(started.success).toBe(true);
+      expect(started.job?.status).toBe('running');
+
+      const job = await manager.wait(started.job!.id);
+      expect(job).toMatchObject({ status: 'succeeded', exitCode: 0, cwd: '/tmp', outputSize: 6 });
+    });
+
+    it('should reject commands that fail validation', () => {
+      const started = manager.start('rm -rf /tmp/x', { cwd: '/tmp' });
+
+      expect(started).toMatchObject({ success: false, denied: true });
+      expect(started.error).toMatch(/not in the allowed list/);
+      expect(manager.listJobs()).toEqual([]);
+    });
+
+    it('should limit the number of kept jobs, dropping finished jobs first', async () => {
+      const first = manager.start('echo one', { cwd: '/tmp' });
+      await manager.wait(first.job!.id);
+      manager.start('sleep 5', { cwd: '/tmp' });
+
+      expect(manager.start('sleep 5', { cwd: '/tmp' }).success).toBe(true);
+      expect(manager.getJob(first.job!.id)).toBeUndefined();
+
+      const third = manager.start('sleep 5', { cwd: '/tmp' });
+      expect(third.success).toBe(false);
+      expect(third.error).toMatch(/Too many running jobs \(max 2\)/);
+    });
+  });
+
+  describe('readOutput', () => {
+    it('should read output from an offset and report dropped output', async () => {
+      const started = manager.start('echo 0123456789abc', { cwd: '/tmp' });
+      await manager.wait(started.job!.id);
+
+      expect(manager.readOutput(started.job!.id, 0)).toEqual({
+        jobId: started.job!.id,
+        offset: 6,
+        nextOffset: 14,
+        output: '6789abc\n',
+        skipped: 6,
+        running: false,
+      });
+      expect(manager.readOutput(started.job!.id, 10, 2)).toMatchObject({
+        offset: 10,
+        nextOffset: 12,
+        output: 'ab',
+        skipped: 0,
+      });
+    });
+
+    it('should redact secrets before the output is paged', async () => {
+      const largeManager = new JobManager(
+        { ...config, jobs: { maxOutputSize: 1024 } },
+        new CommandExecutor(config)
+      );
+      const token = `ghp_${'a'.repeat(36)}`;
+
+      try {
+        const started = largeManager.start(`echo ${token}`, { cwd: '/tmp' });
+        await largeManager.wait(started.job!.id);
+
+        expect(largeManager.readOutput(started.job!.id)?.output).toBe('[REDACTED:github-token]\n');
+        expect(largeManager.readOutput(started.job!.id, 0, 20)?.output).toBe('[REDACTED:github-tok');
+        expect(largeManager.readOutput(started.job!.id, 4, 20)?.output).not.toContain('aaaa');
+      } finally {
+        largeManager.shutdown();
+      }
+    });
+
+    it('should return undefined for unknown jobs', () => {
+      expect(manager.readOutput('unknown-id')).toBeUndefined();
+    });
+  });
+
+  describe('wait', () => {
+    it('should stop waiting after the timeout while the job keeps running', async () => {
+      const started = manager.start('sleep 5', { cwd: '/tmp' });
+
+      const job = await manager.wait(started.job!.id, 0.2);
+
+      expect(job?.status).toBe('running');
+    });
+  });
+
+  describe('kill', () => {
+    it('should signal a running job and mark it as killed', async () => {
+      const started = manager.start('cat', { cwd: '/tmp' });
+
+      manager.kill(started.job!.id);
+      const job = await manager.wait(started.job!.id);
+
+      expect(job).toMatchObject({ status: 'killed', signal: 'SIGTERM' });
+    });
+
+    it('should leave the status of a job sent a non-terminating signal to its exit', async () => {
+      const started = manager.start('sleep 0.2', { cwd: '/tmp' });
+
+      manager.kill(started.job!.id, 'SIGCONT');
+      const job = await manager.wait(started.job!.id);
+
+      expect(job).toMatchObject({ status: 'succeeded', exitCode: 0 });
+    });
+
+    it('should stop programs the job started as well', async () => {
+      const started = manager.start('sleep 30', { cwd: '/tmp' });
+
+      manager.kill(started.job!.id);
+      const job = await manager.wait(started.job!.id);
+
+      expect(job?.status).toBe('killed');
+    });
+
+    it('should return undefined for unknown jobs', () => {
+      expect(manager.kill('unknown-id')).toBeUndefined();
+    });
+  });
+});
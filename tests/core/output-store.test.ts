@@ -0,0 +1,152 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { OutputStore } from '../../src/core/output-store';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('OutputStore', () => {
+  const output = 'alpha\nbeta\ngamma\ndelta\n';
+  let dir: string;
+  let config: MCPConfig;
+  let store: OutputStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-outputs-'));
+    const mockConfig = createMockConfig();
+    config = {
+      ...mockConfig,
+      security: { ...mockConfig.security, maxOutputSize: 12 },
+      outputStore: { enabled: true, directory: dir },
+    };
+    store = new OutputStore(config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    store.shutdown();
+    fs.removeSync(dir);
+  });
+
+  describe('save', () => {
+    it('should return a handle for the output', () => {
+      const handle = store.save(output, 'cat words');
+
+      expect(handle).toEqual(expect.any(String));
+      expect(store.read(handle!)).toMatchObject({ totalBytes: 23, totalLines: 4 });
+    });
+
+    it('should not keep anything when the store is disabled', () => {
+      const disabled = new OutputStore({ ...config, outputStore: { enabled: false, directory: dir } });
+
+      expect(disabled.save(output, 'cat words')).toBeUndefined();
+    });
+  });
+
+  describe('read', () => {
+    it('should read byte ranges up to maxOutputSize', () => {
+      const handle = store.save(output, 'cat words')!;
+
+      expect(store.read(handle)).toMatchObject({ output: 'alpha\nbeta\ng', offset: 0, nextOffset: 12 });
+      expect(store.read(handle, { offset: 18, length: 100 })).toMatchObject({
+        output: 'elta\n',
+        offset: 18,
+        nextOffset: 23,
+      });
+    });
+
+    it('should read whole lines and report where to continue', () => {
+      const handle = store.save(output, 'cat words')!;
+
+      expect(store.read(handle, { startLine: 2 })).toMatchObject({
+        output: 'beta\ngamma\n',
+        startLine: 2,
+        endLine: 3,
+        truncated: true,
+      });
+      expect(store.read(handle, { startLine: 4, endLine: 9 })).toMatchObject({
+        output: 'delta\n',
+        endLine: 4,
+        truncated: false,
+      });
+    });
+
+    it('should limit line ranges to maxOutputSize bytes', () => {
+      const handle = store.save('ééé\nèèè\n', 'cat accents')!;
+
+      expect(store.read(handle, { startLine: 1 })).toMatchObject({
+        output: 'ééé\n',
+        endLine: 1,
+        truncated: true,
+      });
+    });
+
+    it('should return the lines matching a pattern with their numbers', () => {
+      const handle = store.save(output, 'cat words')!;
+
+      expect(store.read(handle, { pattern: 'mm' })).toMatchObject({
+        output: '3:gamma\n',
+        matches: 1,
+        truncated: false,
+      });
+      expect(store.read(handle, { pattern: 'ta$' })).toMatchObject({
+        output: '2:beta\n',
+        matches: 2,
+        truncated: true,
+      });
+      expect(() => store.read(handle, { pattern: '(' })).toThrow();
+    });
+
+    it('should return undefined for unknown handles', () => {
+      expect(store.read('unknown-handle')).toBeUndefined();
+    });
+  });
+
+  describe('eviction', () => {
+    it('should remove the least recently read outputs beyond maxEntries', () => {
+      const limited = new OutputStore({ ...config, outputStore: { enabled: true, directory: dir, maxEntries: 2 } });
+      const first = limited.save('first', 'a')!;
+      const second = limited.save('second', 'b')!;
+      limited.read(first);
+
+      const third = limited.save('third', 'c')!;
+
+      expect(limited.read(second)).toBeUndefined();
+      expect(limited.read(first)?.output).toBe('first');
+      expect(limited.read(third)?.output).toBe('third');
+    });
+
+    it('should spill outputs to disk beyond maxMemory and read them back', () => {
+      const limited = new OutputStore({ ...config, outputStore: { enabled: true, directory: dir, maxMemory: 30 } });
+      const first = limited.save(output, 'a')!;
+      limited.save(output, 'b');
+
+      expect(fs.readdirSync(dir)).toEqual([`${first}.out`]);
+      expect(limited.read(first, { offset: 6, length: 5 })?.output).toBe('beta\n');
+      expect(limited.read(first, { pattern: 'gamma' })?.output).toBe('3:gamma\n');
+
+      limited.shutdown();
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('should not keep outputs larger than maxDiskSize', () => {
+      const limited = new OutputStore({
+        ...config,
+        outputStore: { enabled: true, directory: dir, maxMemory: 10, maxDiskSize: 10 },
+      });
+
+      expect(limited.save(output, 'a')).toBeUndefined();
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('should expire outputs that were not read within the ttl', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const limited = new OutputStore({ ...config, outputStore: { enabled: true, directory: dir, ttl: 60 } });
+      const handle = limited.save(output, 'a')!;
+
+      jest.setSystemTime(new Date('2026-01-01T00:02:00Z'));
+
+      expect(limited.read(handle)).toBeUndefined();
+    });
+  });
+});
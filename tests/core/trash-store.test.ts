@@ -0,0 +1,160 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { TrashStore } from '../../src/core/trash-store';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('TrashStore', () => {
+  let dir: string;
+  let work: string;
+  let config: MCPConfig;
+  let store: TrashStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-trash-'));
+    work = path.join(dir, 'work');
+    fs.ensureDirSync(work);
+    config = {
+      ...createMockConfig(),
+      allowedCommands: ['rm', 'mv', 'cp', 'echo'],
+      trash: { enabled: true, directory: path.join(dir, 'trash') },
+    };
+    store = new TrashStore(config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.removeSync(dir);
+  });
+
+  describe('save', () => {
+    it('should save files a command deletes', async () => {
+      fs.writeFileSync(path.join(work, 'a.txt'), 'hello');
+
+      const items = await store.save('rm a.txt missing.txt', work);
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          originalPath: path.join(work, 'a.txt'),
+          reason: 'deleted',
+          command: 'rm a.txt missing.txt',
+          size: 5,
+        }),
+      ]);
+      expect(store.list()).toEqual(items);
+    });
+
+    it('should save files a command overwrites', async () => {
+      fs.writeFileSync(path.join(work, 'a.txt'), 'new');
+      fs.writeFileSync(path.join(work, 'b.txt'), 'old');
+      fs.writeFileSync(path.join(work, 'log.txt'), 'log');
+
+      const items = await store.save('mv a.txt b.txt && echo hi > log.txt', work);
+
+      expect(items.map((item) => [path.basename(item.originalPath), item.reason])).toEqual([
+        ['b.txt', 'overwritten'],
+        ['log.txt', 'overwritten'],
+      ]);
+    });
+
+    it('should save the entry a copy into a directory replaces', async () => {
+      fs.writeFileSync(path.join(work, 'a.txt'), 'new');
+      fs.ensureDirSync(path.join(work, 'dest'));
+      fs.writeFileSync(path.join(work, 'dest', 'a.txt'), 'old');
+
+      const items = await store.save('cp a.txt dest', work);
+
+      expect(items.map((item) => item.originalPath)).toEqual([path.join(work, 'dest', 'a.txt')]);
+    });
+
+    it('should not save anything when the trash is disabled', async () => {
+      fs.writeFileSync(path.join(work, 'a.txt'), 'hello');
+      const disabled = new TrashStore({ ...config, trash: { ...config.trash!, enabled: false } });
+
+      expect(await disabled.save('rm a.txt', work)).toEqual([]);
+    });
+
+    it('should not save items larger than maxSize', async () => {
+      fs.writeFileSync(path.join(work, 'big.txt'), 'x'.repeat(100));
+      const small = new TrashStore({ ...config, trash: { ...config.trash!, maxSize: 10 } });
+
+      expect(await small.save('rm big.txt', work)).toEqual([]);
+    });
+  });
+
+  describe('retention', () => {
+    it('should remove the oldest items beyond maxItems', async () => {
+      const limited = new TrashStore({ ...config, trash: { ...config.trash!, maxItems: 2 } });
+      for (const name of ['a', 'b', 'c']) {
+        fs.writeFileSync(path.join(work, name), name);
+        await limited.save(`rm ${name}`, work);
+      }
+
+      expect(limited.list().map((item) => path.basename(item.originalPath))).toEqual(['c', 'b']);
+      expect(fs.readdirSync(path.join(dir, 'trash', 'items')).length).toBe(2);
+    });
+
+    it('should remove items older than maxAge', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+      const limited = new TrashStore({ ...config, trash: { ...config.trash!, maxAge: 60 } });
+      fs.writeFileSync(path.join(work, 'a.txt'), 'hello');
+      await limited.save('rm a.txt', work);
+
+      jest.setSystemTime(new Date('2026-01-01T00:02:00Z'));
+
+      expect(limited.list()).toEqual([]);
+    });
+  });
+
+  describe('restore', () => {
+    it('should move an item back to its original path', async () => {
+      fs.writeFileSync(path.join(work, 'a.txt'), 'hello');
+      const [item] = await store.save('rm a.txt', work);
+      fs.removeSync(path.join(work, 'a.txt'));
+
+      await store.restore(item.id);
+
+      expect(fs.readFileSync(path.join(work, 'a.txt'), 'utf8')).toBe('hello');
+      expect(store.list()).toEqual([]);
+    });
+
+    it('should restore deleted directories with their contents', async () => {
+      fs.ensureDirSync(path.join(work, 'sub'));
+      fs.writeFileSync(path.join(work, 'sub', 'a.txt'), 'hello');
+      const [item] = await store.save('rm -r sub', work);
+      fs.removeSync(path.join(work, 'sub'));
+
+      await store.restore(item.id);
+
+      expect(fs.readFileSync(path.join(work, 'sub', 'a.txt'), 'utf8')).toBe('hello');
+    });
+
+    it('should only replace an existing path when overwrite is set', async () => {
+      fs.writeFileSync(path.join(work, 'b.txt'), 'old');
+      const [item] = await store.save('cp a.txt b.txt', work);
+      fs.writeFileSync(path.join(work, 'b.txt'), 'new');
+
+      await expect(store.restore(item.id)).rejects.toThrow('path already exists');
+      await store.restore(item.id, true);
+
+      expect(fs.readFileSync(path.join(work, 'b.txt'), 'utf8')).toBe('old');
+    });
+
+    it('should refuse to restore outside writable directories', async () => {
+      fs.writeFileSync(path.join(work, 'a.txt'), 'hello');
+      const [item] = await store.save('rm a.txt', work);
+      fs.removeSync(path.join(work, 'a.txt'));
+      const readOnly = new TrashStore({
+        ...config,
+        allowedDirectories: [{ path: '/tmp', access: 'read' }],
+      });
+
+      await expect(readOnly.restore(item.id)).rejects.toThrow('directory is not writable');
+    });
+
+    it('should reject unknown IDs', async () => {
+      await expect(store.restore('unknown-id')).rejects.toThrow('Trash item unknown-id not found');
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { execFileSync } from 'child_process';
+import { createCommandMarkers } from '../../src/utils/command-markers';
+
+describe('createCommandMarkers', () => {
+  it('should find the output and exit status of the wrapped command in a shell', () => {
+    const markers = createCommandMarkers("echo 'it''s' # comment\n(exit 3)");
+
+    const output = execFileSync('bash', ['-c', `${markers.line}; true`], { encoding: 'utf8' });
+    const marked = markers.scan(output);
+
+    expect(output.substring(marked.start!, marked.end)).toBe('its\n');
+    expect(marked.exitCode).toBe(3);
+  });
+
+  it('should not mistake the echoed command line for its markers', () => {
+    const markers = createCommandMarkers('echo hi');
+
+    expect(markers.scan(`$ ${markers.line}\r\n`)).toEqual({});
+  });
+
+  it('should find markers split across chunks of output', () => {
+    const markers = createCommandMarkers('echo hi');
+    const output = execFileSync('bash', ['-c', markers.line], { encoding: 'utf8' });
+
+    let marked = {};
+    for (let i = 1; i <= output.length; i++) {
+      marked = markers.scan(output.substring(0, i));
+    }
+
+    expect(marked).toMatchObject({ exitCode: 0 });
+  });
+});
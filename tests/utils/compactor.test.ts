@@ -0,0 +1,94 @@
+import { compactOutput, estimateTokens, getCompaction } from '../../src/utils/compactor';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('compactor', () => {
+  describe('getCompaction', () => {
+    it('should follow compaction.enabled unless the call overrides it', () => {
+      const config = { ...createMockConfig(), compaction: { enabled: false, tokenBudget: 100 } };
+
+      expect(getCompaction(config)).toBeUndefined();
+      expect(getCompaction(config, true)).toEqual({ enabled: true, tokenBudget: 100 });
+      expect(
+        getCompaction({ ...config, compaction: { enabled: true } }, false)
+      ).toBeUndefined();
+      expect(getCompaction(createMockConfig(), true)).toEqual({ enabled: true });
+    });
+  });
+
+  describe('estimateTokens', () => {
+    it('should count words by length and punctuation by character', () => {
+      expect(estimateTokens('hello world')).toBe(4);
+      expect(estimateTokens('a.b')).toBe(3);
+      expect(estimateTokens('  \n')).toBe(0);
+    });
+  });
+
+  describe('compactOutput', () => {
+    it('should strip ANSI escape sequences', () => {
+      const { output, report } = compactOutput(
+        '\x1b[31mred\x1b[0m \x1b]0;title\x07plain',
+        { enabled: true }
+      );
+
+      expect(output).toBe('red plain');
+      expect(report.ansiCodes).toBe(3);
+    });
+
+    it('should keep only the final state of lines rewritten with carriage returns', () => {
+      const { output, report } = compactOutput(
+        'Downloading 10%\rDownloading 55%\rDownloading 100%\nabcdef\rxy\r\ndone\r\n',
+        { enabled: true }
+      );
+
+      expect(output).toBe('Downloading 100%\nxycdef\ndone\n');
+      expect(report.rewrittenLines).toBe(2);
+    });
+
+    it('should fold runs of identical lines into one line with a count', () => {
+      const { output, report } = compactOutput('a\nwarn\nwarn\nwarn\nb', { enabled: true });
+
+      expect(output).toBe('a\nwarn [repeated 3 times]\nb');
+      expect(report.duplicateLines).toBe(2);
+    });
+
+    it('should skip steps that are turned off', () => {
+      const input = '\x1b[1mx\x1b[0m\nx\nx';
+
+      const { output } = compactOutput(input, { enabled: true, stripAnsi: false, dedupeLines: false });
+
+      expect(output).toBe(input);
+    });
+
+    it('should cut lines from the middle to fit the token budget and keep the full output', () => {
+      // Each line is two tokens and the note takes 35 of the budget
+      const input = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n');
+      const keep = jest.fn().mockReturnValue('h1');
+
+      const { output, report, outputHandle } = compactOutput(
+        input,
+        { enabled: true, tokenBudget: 43 },
+        keep
+      );
+
+      expect(keep).toHaveBeenCalledWith(input);
+      expect(outputHandle).toBe('h1');
+      expect(output).toBe(
+        'line 1\nline 2\n' +
+          '[26 lines (~52 tokens) omitted to fit the token budget; read the full output with read_output and handle h1]\n' +
+          'line 29\nline 30'
+      );
+      expect(report).toMatchObject({ omittedLines: 26, omittedTokens: 52, tokens: 60 });
+      expect(report.compactedTokens).toBeLessThanOrEqual(43);
+    });
+
+    it('should not keep the output when it fits the token budget', () => {
+      const keep = jest.fn();
+
+      const { output, report } = compactOutput('short output', { enabled: true, tokenBudget: 8 }, keep);
+
+      expect(output).toBe('short output');
+      expect(report.omittedLines).toBe(0);
+      expect(keep).not.toHaveBeenCalled();
+    });
+  });
+});
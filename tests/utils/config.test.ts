@@ -71,5 +71,118 @@ describe('Config Utility', () => {
       expect(fs.pathExists).toHaveBeenCalledWith(mockConfigPath);
       expect(fs.readFile).toHaveBeenCalledWith(mockConfigPath, 'utf8');
     });
+
+    it('should accept command policies in allowedCommands', async () => {
+      const mockConfigPath = '/mock/policy/config.json';
+      const policyConfig = {
+        ...loadTestConfig(),
+        allowedCommands: ['ls', { command: 'rm', deniedFlags: ['-r', '-f'], maxArguments: 3 }],
+      };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(policyConfig));
+
+      const config = await loadConfig(mockConfigPath);
+      expect(config.allowedCommands).toEqual(policyConfig.allowedCommands);
+    });
+
+    it('should throw an error if a command policy is invalid', async () => {
+      const mockConfigPath = '/mock/bad-policy/config.json';
+      const badConfig = {
+        ...loadTestConfig(),
+        allowedCommands: [{ command: 'cat', argumentPatterns: ['(unclosed'] }],
+      };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(badConfig));
+
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(/invalid regex/);
+    });
+
+    it('should throw an error if resource limits are invalid', async () => {
+      const mockConfigPath = '/mock/bad-limits/config.json';
+      const badConfig = {
+        ...loadTestConfig(),
+        allowedCommands: [{ command: 'make', resourceProfile: 'build' }],
+        resourceProfiles: { build: { cpuTime: 300 } },
+      };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+
+      (fs.readFile as jest.Mock).mockResolvedValue(
+        JSON.stringify({ ...badConfig, resourceProfiles: {} })
+      );
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(/is not defined in resourceProfiles/);
+
+      (fs.readFile as jest.Mock).mockResolvedValue(
+        JSON.stringify({ ...badConfig, resourceProfiles: { build: { cpuTime: -1 } } })
+      );
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(
+        /resourceProfiles.build.cpuTime must be a positive integer/
+      );
+
+      (fs.readFile as jest.Mock).mockResolvedValue(
+        JSON.stringify({ ...badConfig, resourceProfiles: { build: { memory: 1 } } })
+      );
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(/is not a known limit/);
+    });
+
+    it('should throw an error if the kill grace period is invalid', async () => {
+      const mockConfigPath = '/mock/bad-grace/config.json';
+      const testConfig = loadTestConfig();
+      const badConfig = {
+        ...testConfig,
+        security: { ...testConfig.security, killGracePeriod: -1 },
+      };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(badConfig));
+
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(
+        /security.killGracePeriod must be a non-negative number/
+      );
+    });
+
+    it('should throw an error if the compaction settings are invalid', async () => {
+      const mockConfigPath = '/mock/bad-compaction/config.json';
+      const badConfig = { ...loadTestConfig(), compaction: { enabled: true, tokenBudget: -1 } };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(badConfig));
+
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(
+        /compaction.tokenBudget must be a non-negative number/
+      );
+    });
+
+    it('should throw an error if a directory access tier is invalid', async () => {
+      const mockConfigPath = '/mock/bad-tier/config.json';
+      const badConfig = {
+        ...loadTestConfig(),
+        allowedDirectories: ['/tmp', { path: '/srv', access: 'admin' }],
+      };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(badConfig));
+
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(
+        /allowedDirectories\[1\].access must be "read", "write" or "exec"/
+      );
+    });
+
+    it('should throw an error if the sandbox configuration is invalid', async () => {
+      const mockConfigPath = '/mock/bad-sandbox/config.json';
+      const badConfig = {
+        ...loadTestConfig(),
+        sandbox: { enabled: true, readOnlyDirectories: ['/srv'] },
+      };
+
+      (fs.pathExists as jest.Mock).mockResolvedValue(true);
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(badConfig));
+
+      await expect(loadConfig(mockConfigPath)).rejects.toThrow(
+        /sandbox.readOnlyDirectories entry \/srv is not in allowedDirectories/
+      );
+    });
   });
 });
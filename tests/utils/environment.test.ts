@@ -0,0 +1,101 @@
+import { buildEnvironment, validateEnvironment } from '../../src/utils/environment';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('Environment', () => {
+  const originalEnv = process.env;
+  const config = createMockConfig();
+
+  beforeEach(() => {
+    process.env = {
+      PATH: '/usr/bin',
+      HOME: '/home/test',
+      LANG: 'C.UTF-8',
+      GITHUB_TOKEN: 'ghp_secret',
+      OPENAI_API_KEY: 'sk-secret',
+      DB_PASSWORD: 'hunter2',
+      AWS_ACCESS_KEY_ID: 'AKIAEXAMPLE',
+      DATABASE_URL: 'postgres://user:pass@db/app',
+      'BASH_FUNC_ls%%': '() { echo pwned; }',
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('buildEnvironment', () => {
+    it('should only pass through basic variables by default', () => {
+      expect(buildEnvironment(config)).toEqual({
+        PATH: '/usr/bin',
+        HOME: '/home/test',
+        LANG: 'C.UTF-8',
+        SHLVL: '1',
+      });
+    });
+
+    it('should only pass through listed variables and apply overrides', () => {
+      const policyConfig: MCPConfig = {
+        ...config,
+        environment: { passthrough: ['PATH', 'L*', 'GITHUB_TOKEN'], overrides: { HOME: '/tmp' } },
+      };
+
+      expect(buildEnvironment(policyConfig)).toEqual({
+        PATH: '/usr/bin',
+        LANG: 'C.UTF-8',
+        HOME: '/tmp',
+        SHLVL: '1',
+      });
+    });
+
+    it('should add requested variables under the overrides', () => {
+      const policyConfig: MCPConfig = {
+        ...config,
+        environment: { passthrough: ['*'], deniedPatterns: [], overrides: { LANG: 'C' } },
+      };
+
+      const env = buildEnvironment(policyConfig, { DEBUG: '1', LANG: 'fr_FR' });
+
+      expect(env.DEBUG).toBe('1');
+      expect(env.LANG).toBe('C');
+      expect(env.GITHUB_TOKEN).toBe('ghp_secret');
+      expect(env).not.toHaveProperty(['BASH_FUNC_ls%%']);
+    });
+  });
+
+  describe('validateEnvironment', () => {
+    it('should accept ordinary variables', () => {
+      expect(validateEnvironment({ DEBUG: '1' }, config).isValid).toBe(true);
+    });
+
+    it('should reject denied and protected variables', () => {
+      expect(validateEnvironment({ my_token: 'x' }, config)).toEqual({
+        isValid: false,
+        reason: 'Environment variable "my_token" matches denied pattern "*_TOKEN"',
+      });
+      expect(validateEnvironment({ LD_PRELOAD: '/tmp/x.so' }, config).reason).toMatch(
+        /cannot be set/
+      );
+      expect(validateEnvironment({ LD_AUDIT: '/tmp/x.so' }, config).reason).toMatch(
+        /cannot be set/
+      );
+      expect(validateEnvironment({ HOME: '/' }, config).reason).toMatch(/cannot be set/);
+      expect(
+        validateEnvironment({ 'BASH_FUNC_ls%%': '() { id; }' }, config).reason
+      ).toMatch(/cannot be set/);
+    });
+
+    it('should reject overridden variables and variables outside the passthrough list', () => {
+      const policyConfig: MCPConfig = {
+        ...config,
+        environment: { passthrough: ['DEBUG', 'LANG'], overrides: { LANG: 'C' } },
+      };
+
+      expect(validateEnvironment({ DEBUG: '1' }, policyConfig).isValid).toBe(true);
+      expect(validateEnvironment({ LANG: 'fr_FR' }, policyConfig).reason).toMatch(/fixed by/);
+      expect(validateEnvironment({ OTHER: '1' }, policyConfig).reason).toMatch(
+        /not in the passthrough list/
+      );
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  diffSnapshots,
+  getChangeRoots,
+  reportChanges,
+  takeSnapshot,
+} from '../../src/utils/file-changes';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('File Changes', () => {
+  let root: string;
+  let config: MCPConfig;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-changes-')));
+    fs.ensureDirSync(path.join(root, 'work', 'sub'));
+    fs.ensureDirSync(path.join(root, 'out'));
+    fs.writeFileSync(path.join(root, 'work', 'keep.txt'), 'keep');
+    fs.writeFileSync(path.join(root, 'work', 'edit.txt'), 'before');
+    fs.writeFileSync(path.join(root, 'work', 'sub', 'gone.txt'), 'gone');
+
+    config = {
+      ...createMockConfig(),
+      allowedCommands: ['touch', 'cp', 'rm'],
+      allowedDirectories: [root],
+      changeTracking: { enabled: true },
+    };
+  });
+
+  afterEach(() => {
+    fs.removeSync(root);
+  });
+
+  describe('getChangeRoots', () => {
+    it('should include the working directory and directories written elsewhere', () => {
+      const work = path.join(root, 'work');
+
+      expect(getChangeRoots('touch a', config, work)).toEqual([work]);
+      expect(getChangeRoots(`cp a ${root}/out/b`, config, work)).toEqual([
+        work,
+        path.join(root, 'out'),
+      ]);
+      expect(getChangeRoots(`cp a ${root}/out`, config, work)).toEqual([
+        work,
+        path.join(root, 'out'),
+      ]);
+    });
+
+    it('should drop directories inside another root and outside the allowed directories', () => {
+      expect(getChangeRoots('touch work/sub/x /etc/x', config, root)).toEqual([root]);
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should report created, modified and deleted entries', async () => {
+      const work = path.join(root, 'work');
+      const before = await takeSnapshot([work], config);
+
+      fs.writeFileSync(path.join(work, 'edit.txt'), 'after!');
+      fs.removeSync(path.join(work, 'sub'));
+      fs.ensureDirSync(path.join(work, 'new'));
+      fs.writeFileSync(path.join(work, 'new', 'file.txt'), 'new');
+
+      const after = await takeSnapshot([work], config);
+
+      expect(diffSnapshots(before!, after!)).toEqual({
+        created: [path.join(work, 'new'), path.join(work, 'new', 'file.txt')],
+        modified: [path.join(work, 'edit.txt')],
+        deleted: [path.join(work, 'sub'), path.join(work, 'sub', 'gone.txt')],
+      });
+    });
+
+    it('should detect content changes that keep the size and mtime', async () => {
+      const file = path.join(root, 'work', 'edit.txt');
+      const { mtime } = fs.statSync(file);
+      const before = await takeSnapshot([root], config);
+
+      fs.writeFileSync(file, 'BEFORE');
+      fs.utimesSync(file, mtime, mtime);
+
+      const after = await takeSnapshot([root], config);
+      expect(diffSnapshots(before!, after!).modified).toEqual([file]);
+    });
+  });
+
+  describe('takeSnapshot', () => {
+    it('should stop hashing once the total hashing budget is spent', async () => {
+      const work = path.join(root, 'work');
+      fs.writeFileSync(path.join(work, 'large.txt'), 'x'.repeat(100));
+      const limited = { ...config, changeTracking: { enabled: true, maxHashTotal: 50 } };
+
+      const snapshot = await takeSnapshot([work], limited);
+
+      expect(snapshot!.get(path.join(work, 'large.txt'))!.hash).toBeUndefined();
+      expect(snapshot!.get(path.join(work, 'large.txt'))!.size).toBe(100);
+      expect(diffSnapshots(snapshot!, (await takeSnapshot([work], config))!).modified).toEqual([]);
+    });
+  });
+
+  describe('reportChanges', () => {
+    it('should skip trees with too many entries', async () => {
+      const limited = { ...config, changeTracking: { enabled: true, maxFiles: 2 } };
+      const before = await takeSnapshot([root], limited);
+
+      expect(before).toBeUndefined();
+      expect(await reportChanges([root], before, limited)).toEqual({
+        created: [],
+        modified: [],
+        deleted: [],
+        skipped: `More than 2 entries under ${root}`,
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { spawn } from 'child_process';
+import {
+  findGroupLeader,
+  listProcesses,
+  signalProcesses,
+  terminateProcesses,
+} from '../../src/utils/process-tree';
+
+describe('Process Tree', () => {
+  // A shell in its own process group that leaves a program running in the background
+  const startGroup = (script: string): number => {
+    const child = spawn('sh', ['-c', script], { detached: true, stdio: 'ignore' });
+    child.unref();
+    return child.pid!;
+  };
+
+  const waitFor = async (check: () => boolean): Promise<void> => {
+    for (let i = 0; i < 50 && !check(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  };
+
+  describe('listProcesses', () => {
+    it('should list every process in a process group', async () => {
+      const pgid = startGroup('sleep 30 & sleep 30');
+      await waitFor(() => listProcesses('group', pgid).length === 3);
+
+      expect(listProcesses('group', pgid)).toHaveLength(3);
+      expect(listProcesses('group', pgid)).toContain(pgid);
+
+      signalProcesses('group', pgid, 'SIGKILL');
+    });
+
+    it('should return an empty list for unknown groups', () => {
+      expect(listProcesses('group', 999999999)).toEqual([]);
+    });
+  });
+
+  describe('findGroupLeader', () => {
+    it('should find the process below a wrapper that leads its own group', async () => {
+      const wrapper = spawn('sh', ['-c', 'setsid sleep 30 & wait'], { stdio: 'ignore' });
+      let leader: number | undefined;
+      await waitFor(() => (leader = findGroupLeader(wrapper.pid!)) !== undefined);
+
+      expect(leader).not.toBe(wrapper.pid);
+      expect(listProcesses('group', leader!)).toEqual([leader]);
+
+      signalProcesses('group', leader!, 'SIGKILL');
+      wrapper.kill('SIGKILL');
+    });
+
+    it('should return undefined when no process below leads a group', () => {
+      expect(findGroupLeader(999999999)).toBeUndefined();
+    });
+  });
+
+  describe('terminateProcesses', () => {
+    it('should stop programs left running after their parent exits', async () => {
+      const pgid = startGroup('sleep 30 & exit 0');
+      await waitFor(() => !listProcesses('group', pgid).includes(pgid));
+
+      const stopped = await terminateProcesses('group', pgid, 1);
+
+      expect(stopped).toBe(1);
+      expect(listProcesses('group', pgid)).toEqual([]);
+    });
+
+    it('should send SIGKILL to processes that ignore SIGTERM after the grace period', async () => {
+      const pgid = startGroup('trap "" TERM; sleep 30 & wait');
+      await waitFor(() => listProcesses('group', pgid).length === 2);
+
+      const started = Date.now();
+      await terminateProcesses('group', pgid, 0.3);
+      await waitFor(() => listProcesses('group', pgid).length === 0);
+
+      expect(listProcesses('group', pgid)).toEqual([]);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+    });
+
+    it('should return 0 when nothing is running', async () => {
+      expect(await terminateProcesses('group', 999999999, 1)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  buildUlimitCommand,
+  describeLimitExceeded,
+  detectLimitExceeded,
+  getResourceLimits,
+} from '../../src/utils/resource-limits';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('Resource Limits', () => {
+  const baseConfig = createMockConfig();
+  const config: MCPConfig = {
+    ...baseConfig,
+    allowedCommands: [
+      'echo',
+      { command: 'make', resourceProfile: 'build' },
+      { command: 'sort', resourceProfile: 'build', resourceLimits: { addressSpace: 256 } },
+    ],
+    security: { ...baseConfig.security, resourceLimits: { cpuTime: 10, openFiles: 64 } },
+    resourceProfiles: { build: { cpuTime: 300, addressSpace: 2048 } },
+  };
+
+  describe('getResourceLimits', () => {
+    it('should use the defaults for commands without a profile', () => {
+      expect(getResourceLimits('echo hi', config)).toEqual({ cpuTime: 10, openFiles: 64 });
+    });
+
+    it('should apply the profile and then the command limits over the defaults', () => {
+      expect(getResourceLimits('make all', config)).toEqual({
+        cpuTime: 300,
+        addressSpace: 2048,
+        openFiles: 64,
+      });
+      expect(getResourceLimits('sort file', config)).toEqual({
+        cpuTime: 300,
+        addressSpace: 256,
+        openFiles: 64,
+      });
+    });
+
+    it('should use the lowest limit of all commands in a line', () => {
+      expect(getResourceLimits('make all && sort file', config)).toEqual({
+        cpuTime: 300,
+        addressSpace: 256,
+        openFiles: 64,
+      });
+      expect(getResourceLimits('make all && echo done', config)).toEqual({
+        cpuTime: 10,
+        addressSpace: 2048,
+        openFiles: 64,
+      });
+    });
+
+    it('should fall back to the defaults when the command cannot be parsed', () => {
+      expect(getResourceLimits('echo "unterminated', config)).toEqual({
+        cpuTime: 10,
+        openFiles: 64,
+      });
+    });
+  });
+
+  describe('buildUlimitCommand', () => {
+    it('should return an empty string without limits', () => {
+      expect(buildUlimitCommand({})).toBe('');
+    });
+
+    it('should convert the limits to ulimit flags', () => {
+      expect(
+        buildUlimitCommand({ addressSpace: 512, fileSize: 10, openFiles: 64, processes: 32 })
+      ).toBe('ulimit -v 524288 -f 10240 -n 64 -u 32 || exit 126');
+    });
+
+    it('should keep the CPU soft limit below the hard limit', () => {
+      expect(buildUlimitCommand({ cpuTime: 5 })).toBe(
+        'ulimit -t 6 && ulimit -S -t 5 || exit 126'
+      );
+    });
+  });
+
+  describe('detectLimitExceeded', () => {
+    it('should recognise the CPU and file size signals', () => {
+      expect(detectLimitExceeded({ cpuTime: 5 }, null, 'SIGXCPU', '')).toBe('cpuTime');
+      expect(detectLimitExceeded({ cpuTime: 5 }, 152, null, '')).toBe('cpuTime');
+      expect(detectLimitExceeded({ fileSize: 1 }, 153, null, '')).toBe('fileSize');
+    });
+
+    it('should recognise failures reported in the output', () => {
+      expect(detectLimitExceeded({ addressSpace: 64 }, 1, null, 'MemoryError')).toBe(
+        'addressSpace'
+      );
+      expect(
+        detectLimitExceeded({ processes: 8 }, 254, null, 'bash: fork: retry: Resource temporarily unavailable')
+      ).toBe('processes');
+      expect(detectLimitExceeded({ openFiles: 8 }, 1, null, 'cat: x: Too many open files')).toBe(
+        'openFiles'
+      );
+    });
+
+    it('should ignore limits that were not set and successful commands', () => {
+      expect(detectLimitExceeded({ openFiles: 8 }, 152, null, '')).toBeUndefined();
+      expect(detectLimitExceeded({ openFiles: 8 }, 0, null, 'Too many open files')).toBeUndefined();
+    });
+  });
+
+  describe('describeLimitExceeded', () => {
+    it('should include the configured value', () => {
+      expect(describeLimitExceeded('cpuTime', { cpuTime: 5 })).toBe(
+        'CPU time limit of 5 seconds exceeded'
+      );
+      expect(describeLimitExceeded('addressSpace', { addressSpace: 64 })).toBe(
+        'Memory limit of 64 MB exceeded'
+      );
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { buildSandboxCommand, detectSandboxBackend } from '../../src/utils/sandbox';
+import { MCPConfig } from '../../src/types';
+import { createMockConfig } from '../helpers/mocks';
+
+describe('Sandbox', () => {
+  const originalPath = process.env.PATH;
+  let binDir: string;
+
+  const config: MCPConfig = {
+    ...createMockConfig(),
+    sandbox: { enabled: true, readOnlyDirectories: ['/home/test'], systemPaths: ['/usr'] },
+  };
+
+  /**
+   * Put fake executables on the PATH
+   */
+  function installFakeBinaries(...names: string[]): void {
+    for (const name of names) {
+      fs.writeFileSync(path.join(binDir, name), '#!/bin/sh\n', { mode: 0o755 });
+    }
+  }
+
+  beforeEach(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-mcp-sandbox-'));
+    process.env.PATH = binDir;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.removeSync(binDir);
+  });
+
+  describe('detectSandboxBackend', () => {
+    it('should prefer bwrap and fall back to unshare', () => {
+      installFakeBinaries('unshare');
+      expect(detectSandboxBackend(config)).toBe('unshare');
+
+      installFakeBinaries('bwrap');
+      expect(detectSandboxBackend(config)).toBe('bwrap');
+    });
+
+    it('should only use the configured backend', () => {
+      installFakeBinaries('unshare');
+      const bwrapOnly = { ...config, sandbox: { enabled: true, backend: 'bwrap' as const } };
+
+      expect(detectSandboxBackend(bwrapOnly)).toBeUndefined();
+    });
+  });
+
+  describe('buildSandboxCommand', () => {
+    it('should refuse to run when no backend is installed', () => {
+      expect(() => buildSandboxCommand('ls', '/tmp', config)).toThrow(
+        /neither bwrap nor unshare is available/
+      );
+    });
+
+    it('should bind the allowed directories and disable the network with bwrap', () => {
+      installFakeBinaries('bwrap');
+
+      const { file, args } = buildSandboxCommand('ls', '/tmp', config);
+
+      expect(file).toBe('bwrap');
+      expect(args).toContain('--unshare-net');
+      expect(args.join(' ')).toContain('--ro-bind-try /usr /usr');
+      expect(args.join(' ')).toContain('--bind-try /tmp /tmp');
+      expect(args.join(' ')).toContain('--ro-bind-try /home/test /home/test');
+      expect(args.slice(-5)).toEqual(['--chdir', '/tmp', 'bash', '-c', 'ls']);
+    });
+
+    it('should mount read-tier directories read-only', () => {
+      installFakeBinaries('bwrap');
+      const tierConfig: MCPConfig = {
+        ...config,
+        allowedDirectories: [{ path: '/tmp', access: 'read' }],
+      };
+
+      expect(buildSandboxCommand('ls', '/tmp', tierConfig).args.join(' ')).toContain(
+        '--ro-bind-try /tmp /tmp'
+      );
+    });
+
+    it('should mount nested directories after their parents whatever the config order', () => {
+      installFakeBinaries('bwrap');
+      const nestedConfig: MCPConfig = {
+        ...config,
+        allowedDirectories: [{ path: '/tmp/x/data', access: 'read' }, { path: '/tmp', access: 'write' }],
+      };
+
+      const args = buildSandboxCommand('ls', '/tmp', nestedConfig).args.join(' ');
+
+      expect(args.indexOf('--bind-try /tmp /tmp')).toBeLessThan(
+        args.indexOf('--ro-bind-try /tmp/x/data /tmp/x/data')
+      );
+    });
+
+    it('should keep the network when it is enabled', () => {
+      installFakeBinaries('bwrap');
+      const networked = { ...config, sandbox: { ...config.sandbox!, network: true } };
+
+      expect(buildSandboxCommand('ls', '/tmp', networked).args).not.toContain('--unshare-net');
+    });
+
+    it('should pass the mounts to the unshare mount script', () => {
+      installFakeBinaries('unshare');
+      const unshareConfig = { ...config, sandbox: { ...config.sandbox!, backend: 'unshare' as const } };
+
+      const { file, args } = buildSandboxCommand('ls', '/tmp', unshareConfig);
+
+      expect(file).toBe('unshare');
+      expect(args).toContain('--net');
+      expect(args).toContain('--map-root-user');
+      expect(args.slice(-5)).toEqual(['/tmp', 'ls', 'ro:/usr', 'rw:/tmp', 'ro:/home/test']);
+    });
+
+    it('should pivot into the new root and drop capabilities with unshare', () => {
+      installFakeBinaries('unshare');
+      const unshareConfig = { ...config, sandbox: { ...config.sandbox!, backend: 'unshare' as const } };
+
+      const script = buildSandboxCommand('ls', '/tmp', unshareConfig).args.find((arg) =>
+        arg.includes('mount -t tmpfs')
+      );
+
+      expect(script).toMatch(/pivot_root \. \.oldroot && umount -l \/\.oldroot/);
+      expect(script).toMatch(/exec setpriv --no-new-privs --inh-caps=-all --bounding-set=-all /);
+      expect(script).not.toMatch(/chroot/);
+    });
+  });
+});
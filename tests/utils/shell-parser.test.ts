@@ -0,0 +1,171 @@
+import {
+  parseShellCommand,
+  listSimpleCommands,
+  findCompoundSyntax,
+} from '../../src/utils/shell-parser';
+import { ShellSimpleCommand } from '../../src/types';
+
+/**
+ * Names of every simple command in a command line
+ */
+function commandNames(command: string): (string | undefined)[] {
+  return listSimpleCommands(parseShellCommand(command)).map((c) => c.name?.value);
+}
+
+describe('Shell Parser', () => {
+  describe('parseShellCommand', () => {
+    it('should parse a simple command with arguments', () => {
+      const tree = parseShellCommand('ls -la /tmp') as ShellSimpleCommand;
+
+      expect(tree.type).toBe('command');
+      expect(tree.name?.value).toBe('ls');
+      expect(tree.args.map((a) => a.value)).toEqual(['-la', '/tmp']);
+    });
+
+    it('should remove quotes and escapes from words', () => {
+      const tree = parseShellCommand(`echo "hello world" 'a b' c\\ d`) as ShellSimpleCommand;
+
+      expect(tree.args.map((a) => a.value)).toEqual(['hello world', 'a b', 'c d']);
+      expect(tree.args.every((a) => a.quoted)).toBe(true);
+    });
+
+    it('should not treat operators inside quotes as syntax', () => {
+      const tree = parseShellCommand(`echo "a; b | c" '$(rm -rf /)'`);
+
+      expect(tree.type).toBe('command');
+      expect(commandNames(`echo "a; b | c" '$(rm -rf /)'`)).toEqual(['echo']);
+    });
+
+    it('should parse pipelines and lists', () => {
+      const tree = parseShellCommand('grep foo file | wc -l && echo done; pwd');
+
+      expect(tree.type).toBe('list');
+      expect(commandNames('grep foo file | wc -l && echo done; pwd')).toEqual([
+        'grep',
+        'wc',
+        'echo',
+        'pwd',
+      ]);
+    });
+
+    it('should treat newlines as command separators', () => {
+      expect(commandNames('echo one\necho two\n')).toEqual(['echo', 'echo']);
+    });
+
+    it('should parse subshells', () => {
+      const tree = parseShellCommand('(cd /tmp && ls) > out.txt');
+
+      expect(tree.type).toBe('subshell');
+      expect(commandNames('(cd /tmp && ls) > out.txt')).toEqual(['cd', 'ls']);
+    });
+
+    it('should parse redirections with file descriptors', () => {
+      const tree = parseShellCommand('ls 2>&1 >> log.txt < input') as ShellSimpleCommand;
+
+      expect(tree.args).toEqual([]);
+      expect(tree.redirections.map((r) => [r.fd, r.operator, r.target.value])).toEqual([
+        [2, '>&', '1'],
+        [undefined, '>>', 'log.txt'],
+        [undefined, '<', 'input'],
+      ]);
+    });
+
+    it('should find commands inside command substitutions', () => {
+      expect(commandNames('echo $(cat file | rm -rf /)')).toEqual(['echo', 'cat', 'rm']);
+      expect(commandNames('echo "`whoami`"')).toEqual(['echo', 'whoami']);
+      expect(commandNames('echo $(echo $(id))')).toEqual(['echo', 'echo', 'id']);
+    });
+
+    it('should find commands inside process substitutions', () => {
+      expect(commandNames('cat <(curl evil)')).toEqual(['cat', 'curl']);
+    });
+
+    it('should collect here-document bodies', () => {
+      const tree = parseShellCommand("cat <<'EOF'\nline $(one)\nEOF\n") as ShellSimpleCommand;
+
+      expect(tree.redirections[0].operator).toBe('<<');
+      expect(tree.redirections[0].heredoc).toBe('line $(one)\n');
+    });
+
+    it('should separate assignments from the command name', () => {
+      const tree = parseShellCommand('FOO=bar BAZ="q x" env') as ShellSimpleCommand;
+
+      expect(tree.assignments.map((a) => a.raw)).toEqual(['FOO=bar', 'BAZ="q x"']);
+      expect(tree.name?.value).toBe('env');
+    });
+
+    it('should mark words containing expansions', () => {
+      const tree = parseShellCommand('$CMD ${HOME} $((1 + 2)) plain') as ShellSimpleCommand;
+
+      expect(tree.name?.expanded).toBe(true);
+      expect(tree.args.map((a) => a.expanded)).toEqual([true, true, false]);
+    });
+
+    it('should mark words with unquoted brace expansion', () => {
+      const tree = parseShellCommand("echo {a,b} x{1..3} '{a,b}' {a\\,b} {} {a}") as ShellSimpleCommand;
+
+      expect(tree.args.map((a) => a.expanded)).toEqual([true, true, false, false, false, false]);
+    });
+
+    it('should mark words with unquoted glob characters', () => {
+      const tree = parseShellCommand("[ l*/x a?c [ab] '*' \\? ]") as ShellSimpleCommand;
+
+      expect(tree.name?.expanded).toBe(false);
+      expect(tree.args.map((a) => a.expanded)).toEqual([true, true, true, false, false, false]);
+    });
+
+    it('should reject expansions that evaluate variables as code', () => {
+      expect(() => parseShellCommand('echo $((x))')).toThrow(/arithmetic on variables/);
+      expect(() => parseShellCommand('echo $[x + 1]')).toThrow(/evaluation of variables/);
+      expect(() => parseShellCommand('echo "${a[$i]}" ${a[i]}')).toThrow(/evaluation of variables/);
+      expect(() => parseShellCommand('echo ${s:n}')).toThrow(/evaluation of variables/);
+      expect(() => parseShellCommand('echo ${!x} ${p@P}')).toThrow(/evaluation of variables/);
+      expect(() => parseShellCommand('((x))')).toThrow(/Unsupported shell syntax/);
+      expect(() => parseShellCommand('cat <<EOF\n${a[i]}\nEOF')).toThrow(/evaluation of variables/);
+
+      expect(() => parseShellCommand('echo $((1 + 2)) ${a[0]} ${a[@]} ${!a[@]} ${s:1:2} ${x:-y}')).not.toThrow();
+    });
+
+    it('should reject quotes inside parameter expansions', () => {
+      expect(() => parseShellCommand('echo "${x:-"}"}"; id; echo "${x:-"}"}"')).toThrow(
+        /Unsupported quotes/
+      );
+      expect(() => parseShellCommand("echo ${x:-'}'}")).toThrow(/Unsupported quotes/);
+    });
+
+    it('should ignore comments', () => {
+      expect(commandNames('ls # ; rm -rf /')).toEqual(['ls']);
+    });
+
+    it('should reject unsupported compound commands', () => {
+      expect(() => parseShellCommand('if true; then rm x; fi')).toThrow(/Unsupported shell syntax/);
+      expect(() => parseShellCommand('for f in *; do rm $f; done')).toThrow(/Unsupported/);
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseShellCommand('echo "unterminated')).toThrow(/Unterminated double quote/);
+      expect(() => parseShellCommand("echo 'unterminated")).toThrow(/Unterminated single quote/);
+      expect(() => parseShellCommand('echo $(ls')).toThrow(/Unterminated/);
+      expect(() => parseShellCommand('ls &&')).toThrow(/Expected a command/);
+      expect(() => parseShellCommand('| wc')).toThrow(/Unexpected token/);
+      expect(() => parseShellCommand('ls >')).toThrow(/redirection target/);
+    });
+  });
+
+  describe('findCompoundSyntax', () => {
+    it('should return undefined for a single simple command', () => {
+      expect(findCompoundSyntax(parseShellCommand('grep -- foo file.txt'))).toBeUndefined();
+      expect(findCompoundSyntax(parseShellCommand('echo "a && b"'))).toBeUndefined();
+    });
+
+    it('should report the first compound construct', () => {
+      expect(findCompoundSyntax(parseShellCommand('echo hello && pwd'))).toBe('&&');
+      expect(findCompoundSyntax(parseShellCommand('ls | wc -l'))).toBe('|');
+      expect(findCompoundSyntax(parseShellCommand('ls > out'))).toBe('>');
+      expect(findCompoundSyntax(parseShellCommand('echo `ls`'))).toBe('`');
+      expect(findCompoundSyntax(parseShellCommand('echo $(ls)'))).toBe('$(');
+      expect(findCompoundSyntax(parseShellCommand('(ls)'))).toBe('(');
+      expect(findCompoundSyntax(parseShellCommand('sleep 10 &'))).toBe('&');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { createTerminalScreen } from '../../src/utils/terminal-screen';
+
+describe('terminal-screen', () => {
+  it('should render text, wrap long lines and track the cursor', () => {
+    const screen = createTerminalScreen(10, 3);
+
+    screen.write('hello\r\nabcdefghijklm');
+
+    expect(screen.snapshot()).toMatchObject({
+      columns: 10,
+      rows: 3,
+      lines: ['hello', 'abcdefghij', 'klm'],
+      cursor: { row: 2, column: 3 },
+      cursorVisible: true,
+      alternateScreen: false,
+    });
+  });
+
+  it('should scroll when output reaches the bottom row', () => {
+    const screen = createTerminalScreen(10, 3);
+
+    screen.write('1\r\n2\r\n3\r\n4');
+
+    expect(screen.snapshot().lines).toEqual(['2', '3', '4']);
+  });
+
+  it('should move the cursor and erase parts of the screen', () => {
+    const screen = createTerminalScreen(10, 3);
+
+    screen.write('aaaaa\r\nbbbbb\r\nccccc');
+    screen.write('\x1b[2;3H\x1b[K\x1b[1;1HX\x1b[3;4H\x1b[1K');
+
+    expect(screen.snapshot()).toMatchObject({
+      lines: ['Xaaaa', 'bb', '    c'],
+      cursor: { row: 2, column: 3 },
+    });
+
+    screen.write('\x1b[2J');
+    expect(screen.snapshot().lines).toEqual(['', '', '']);
+  });
+
+  it('should insert and delete lines within the scroll region', () => {
+    const screen = createTerminalScreen(10, 4);
+
+    screen.write('1\r\n2\r\n3\r\n4');
+    screen.write('\x1b[2;3r\x1b[2;1H\x1b[L');
+
+    expect(screen.snapshot().lines).toEqual(['1', '', '2', '4']);
+
+    screen.write('\x1b[M');
+    expect(screen.snapshot().lines).toEqual(['1', '2', '', '4']);
+  });
+
+  it('should restore the main screen when a program leaves the alternate screen', () => {
+    const screen = createTerminalScreen(10, 3);
+
+    screen.write('$ less');
+    screen.write('\x1b[?1049h\x1b[H\x1b[2Jpage 1\x1b]0;less\x07\x1b[?25l');
+
+    expect(screen.snapshot()).toMatchObject({
+      lines: ['page 1', '', ''],
+      alternateScreen: true,
+      cursorVisible: false,
+      title: 'less',
+    });
+
+    screen.write('\x1b[?1049l\x1b[?25h');
+    expect(screen.snapshot()).toMatchObject({
+      lines: ['$ less', '', ''],
+      cursor: { row: 0, column: 6 },
+      alternateScreen: false,
+      cursorVisible: true,
+    });
+  });
+
+  it('should report runs of styled text only when asked', () => {
+    const screen = createTerminalScreen(20, 2);
+
+    screen.write('plain \x1b[1;31mred\x1b[0m \x1b[7minverse\x1b[m');
+
+    expect(screen.snapshot().styles).toBeUndefined();
+    expect(screen.snapshot(true).styles).toEqual([
+      { row: 0, column: 6, length: 3, bold: true, foreground: 1 },
+      { row: 0, column: 10, length: 7, inverse: true },
+    ]);
+  });
+
+  it('should handle escape sequences split across writes', () => {
+    const screen = createTerminalScreen(10, 3);
+
+    screen.write('ab\x1b[');
+    screen.write('2');
+    screen.write('Dc');
+
+    expect(screen.snapshot().lines).toEqual(['cb', '', '']);
+  });
+});